@@ -0,0 +1,175 @@
+// Generates the JSON Schema of EventPayloadMap (src/types.ts): a standalone
+// file for the ingest service and a module the SDK's debug validator imports.
+//
+//   npm run generate:schema
+
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import * as prettier from 'prettier';
+import ts from 'typescript';
+
+const ROOT_DIR = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const TYPES_FILE = resolve(ROOT_DIR, 'src/types.ts');
+const JSON_SCHEMA_FILE = resolve(ROOT_DIR, 'schema/event-payloads.schema.json');
+const SCHEMA_MODULE_FILE = resolve(ROOT_DIR, 'src/schema/event-payloads.ts');
+const PAYLOAD_MAP_NAME = 'EventPayloadMap';
+// Deeper nesting is accepted as is rather than recursing forever
+const MAX_DEPTH = 6;
+
+const program = ts.createProgram([TYPES_FILE], {
+  strict: true,
+  target: ts.ScriptTarget.ES2020,
+  moduleResolution: ts.ModuleResolutionKind.Node10,
+});
+const checker = program.getTypeChecker();
+
+function findPayloadMapType() {
+  const sourceFile = program.getSourceFile(TYPES_FILE);
+  const declaration = sourceFile.statements.find(
+    statement =>
+      ts.isInterfaceDeclaration(statement) &&
+      statement.name.text === PAYLOAD_MAP_NAME
+  );
+  if (!declaration) {
+    throw new Error(`${PAYLOAD_MAP_NAME} not found in ${TYPES_FILE}`);
+  }
+  return checker.getTypeAtLocation(declaration);
+}
+
+function hasFlag(type, flag) {
+  return (type.flags & flag) !== 0;
+}
+
+function convertUnion(types, depth) {
+  const members = types.filter(
+    member => !hasFlag(member, ts.TypeFlags.Undefined)
+  );
+  // `boolean` arrives as the union `true | false`
+  const booleanLiterals = members.filter(member =>
+    hasFlag(member, ts.TypeFlags.BooleanLiteral)
+  );
+  const otherMembers = members.filter(
+    member => !hasFlag(member, ts.TypeFlags.BooleanLiteral)
+  );
+  const schemas = otherMembers.map(member => convertType(member, depth));
+  if (booleanLiterals.length === 2) {
+    schemas.push({ type: 'boolean' });
+  } else if (booleanLiterals.length === 1) {
+    schemas.push(convertType(booleanLiterals[0], depth));
+  }
+
+  if (schemas.length === 1) return schemas[0];
+  if (schemas.every(schema => 'const' in schema)) {
+    return {
+      type: typeof schemas[0].const,
+      enum: schemas.map(schema => schema.const),
+    };
+  }
+  return { anyOf: schemas };
+}
+
+function convertObject(type, depth) {
+  if (checker.isArrayType(type) || checker.isTupleType(type)) {
+    const [itemType] = checker.getTypeArguments(type);
+    return {
+      type: 'array',
+      items: itemType ? convertType(itemType, depth + 1) : {},
+    };
+  }
+
+  const schema = { type: 'object', properties: {}, required: [] };
+  for (const property of checker.getPropertiesOfType(type)) {
+    const propertyType = checker.getTypeOfSymbol(property);
+    schema.properties[property.name] = convertType(propertyType, depth + 1);
+    if (!(property.flags & ts.SymbolFlags.Optional)) {
+      schema.required.push(property.name);
+    }
+  }
+  if (schema.required.length === 0) delete schema.required;
+
+  // Without an index signature unknown keys are rejected, which catches typos
+  const stringIndexType = checker.getIndexTypeOfType(type, ts.IndexKind.String);
+  schema.additionalProperties = stringIndexType
+    ? convertType(stringIndexType, depth + 1)
+    : false;
+  return schema;
+}
+
+function convertType(type, depth) {
+  if (depth > MAX_DEPTH) return {};
+  if (hasFlag(type, ts.TypeFlags.Any | ts.TypeFlags.Unknown)) return {};
+  if (hasFlag(type, ts.TypeFlags.StringLiteral)) return { const: type.value };
+  if (hasFlag(type, ts.TypeFlags.NumberLiteral)) return { const: type.value };
+  if (hasFlag(type, ts.TypeFlags.BooleanLiteral)) {
+    return { const: checker.typeToString(type) === 'true' };
+  }
+  if (hasFlag(type, ts.TypeFlags.String)) return { type: 'string' };
+  if (hasFlag(type, ts.TypeFlags.Number)) return { type: 'number' };
+  if (hasFlag(type, ts.TypeFlags.Boolean)) return { type: 'boolean' };
+  if (hasFlag(type, ts.TypeFlags.Null)) return { type: 'null' };
+  if (type.isUnion()) return convertUnion(type.types, depth);
+  if (hasFlag(type, ts.TypeFlags.Object | ts.TypeFlags.Intersection)) {
+    return convertObject(type, depth);
+  }
+  throw new Error(`Unsupported payload type: ${checker.typeToString(type)}`);
+}
+
+// Sent events also carry super properties, page context and page fields in
+// `data`, so unknown keys are only rejected below the payload's top level
+function allowExtraTopLevelKeys(payloadSchema) {
+  if (payloadSchema.anyOf) {
+    return { anyOf: payloadSchema.anyOf.map(allowExtraTopLevelKeys) };
+  }
+  const { additionalProperties, ...relaxedSchema } = payloadSchema;
+  return additionalProperties === false ? relaxedSchema : payloadSchema;
+}
+
+function buildSchema() {
+  const payloadMapType = findPayloadMapType();
+  const definitions = {};
+  for (const property of checker.getPropertiesOfType(payloadMapType)) {
+    definitions[property.name] = convertType(
+      checker.getTypeOfSymbol(property),
+      0
+    );
+  }
+
+  const eventTypes = Object.keys(definitions);
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    title: 'Crow event payloads',
+    description: `Generated from ${PAYLOAD_MAP_NAME} in src/types.ts by scripts/generate-event-schema.mjs; do not edit.`,
+    type: 'object',
+    required: ['type'],
+    properties: { type: { type: 'string', enum: eventTypes } },
+    oneOf: eventTypes.map(eventType => ({
+      properties: {
+        type: { const: eventType },
+        data: allowExtraTopLevelKeys(definitions[eventType]),
+      },
+    })),
+    // The payloads as trackEvent accepts them
+    $defs: definitions,
+  };
+}
+
+async function writeFormatted(filePath, source, parser) {
+  const config = await prettier.resolveConfig(filePath);
+  mkdirSync(dirname(filePath), { recursive: true });
+  writeFileSync(filePath, await prettier.format(source, { ...config, parser }));
+}
+
+const schema = buildSchema();
+await writeFormatted(JSON_SCHEMA_FILE, JSON.stringify(schema), 'json');
+await writeFormatted(
+  SCHEMA_MODULE_FILE,
+  [
+    '// Generated by scripts/generate-event-schema.mjs; do not edit.',
+    "import type { JsonSchema } from '../utils/payload-validator';",
+    '',
+    `export const EVENT_PAYLOAD_SCHEMAS: Record<string, JsonSchema> = ${JSON.stringify(schema.$defs)};`,
+  ].join('\n'),
+  'typescript'
+);
+console.log(`Wrote ${Object.keys(schema.$defs).length} event payload schemas`);
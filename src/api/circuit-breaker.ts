@@ -0,0 +1,118 @@
+import type { CircuitBreakerConfig, CircuitState } from '../types';
+
+export interface CircuitBreaker {
+  tryAcquire: () => boolean;
+  isBlocked: () => boolean;
+  recordSuccess: () => void;
+  recordFailure: (retryAfterMs?: number) => void;
+  pauseFor: (durationMs: number) => void;
+  getState: () => CircuitState;
+  getRemainingBlockMs: () => number;
+}
+
+interface CircuitBreakerState {
+  state: CircuitState;
+  consecutiveFailures: number;
+  consecutiveOpenings: number;
+  openUntil: number;
+  pausedUntil: number;
+  isProbeInFlight: boolean;
+}
+
+// "Equal jitter": half the delay is fixed, the other half random
+function calculateBackoffMs(
+  config: CircuitBreakerConfig,
+  consecutiveOpenings: number
+): number {
+  const exponentialDelay = Math.min(
+    config.maxBackoffMs,
+    config.baseBackoffMs * 2 ** consecutiveOpenings
+  );
+  return exponentialDelay / 2 + Math.random() * (exponentialDelay / 2);
+}
+
+function openCircuit(
+  breaker: CircuitBreakerState,
+  config: CircuitBreakerConfig,
+  retryAfterMs?: number
+): void {
+  const backoffMs = calculateBackoffMs(config, breaker.consecutiveOpenings);
+
+  breaker.state = 'open';
+  breaker.consecutiveOpenings++;
+  breaker.openUntil = Date.now() + Math.max(backoffMs, retryAfterMs ?? 0);
+  breaker.isProbeInFlight = false;
+}
+
+export function createCircuitBreaker(
+  config: CircuitBreakerConfig
+): CircuitBreaker {
+  const breaker: CircuitBreakerState = {
+    state: 'closed',
+    consecutiveFailures: 0,
+    consecutiveOpenings: 0,
+    openUntil: 0,
+    pausedUntil: 0,
+    isProbeInFlight: false,
+  };
+
+  function isPaused(): boolean {
+    return Date.now() < breaker.pausedUntil;
+  }
+
+  return {
+    tryAcquire: () => {
+      if (isPaused()) return false;
+      if (breaker.state === 'closed') return true;
+
+      if (breaker.state === 'open') {
+        if (Date.now() < breaker.openUntil) return false;
+        breaker.state = 'half_open';
+      }
+
+      // Half-open: let exactly one probe request through
+      if (breaker.isProbeInFlight) return false;
+      breaker.isProbeInFlight = true;
+      return true;
+    },
+
+    isBlocked: () =>
+      isPaused() ||
+      (breaker.state === 'open' && Date.now() < breaker.openUntil) ||
+      (breaker.state === 'half_open' && breaker.isProbeInFlight),
+
+    recordSuccess: () => {
+      breaker.state = 'closed';
+      breaker.consecutiveFailures = 0;
+      breaker.consecutiveOpenings = 0;
+      breaker.isProbeInFlight = false;
+    },
+
+    recordFailure: (retryAfterMs?: number) => {
+      breaker.consecutiveFailures++;
+
+      const shouldOpen =
+        breaker.state === 'half_open' ||
+        retryAfterMs !== undefined ||
+        breaker.consecutiveFailures >= config.failureThreshold;
+
+      if (shouldOpen) openCircuit(breaker, config, retryAfterMs);
+    },
+
+    pauseFor: (durationMs: number) => {
+      breaker.pausedUntil = Math.max(
+        breaker.pausedUntil,
+        Date.now() + durationMs
+      );
+    },
+
+    getState: () => breaker.state,
+
+    getRemainingBlockMs: () =>
+      Math.max(
+        0,
+        breaker.pausedUntil - Date.now(),
+        breaker.state === 'open' ? breaker.openUntil - Date.now() : 0
+      ),
+  };
+}
@@ -1,129 +1,360 @@
-import ky from 'ky';
 import type {
   ApiResponse,
   BatchRequest,
   BatchResponse,
+  CircuitBreakerConfig,
+  CircuitState,
+  EventType,
+  IngestDirectives,
+  RemoteConfigRequest,
+  RemoteConfigResponse,
   ReplayBatchRequest,
   ReplayBatchResponse,
   SessionEndRequest,
   SessionResponse,
   SessionStartRequest,
   TrackRequest,
+  Transport,
+  TransportStats,
 } from '../types';
-
-const TEN_SECONDS_TIMEOUT_MS = 10000;
-const RETRYABLE_HTTP_STATUS_CODES = [408, 413, 429, 500, 502, 503, 504];
-const MAX_RETRY_ATTEMPTS = 3;
+import type { CircuitBreaker } from './circuit-breaker';
+import { SDK_NAME, SDK_VERSION } from '../constants';
+import { createBatchIdempotencyKey } from '../utils/id';
+import { createCircuitBreaker } from './circuit-breaker';
 
 export type ApiClient = {
+  transportName: string;
   sendTrackingEvent: (data: TrackRequest) => Promise<ApiResponse>;
   sendBatchedEvents: (data: BatchRequest) => Promise<BatchResponse>;
   startNewSession: (data: SessionStartRequest) => Promise<SessionResponse>;
   endCurrentSession: (data: SessionEndRequest) => Promise<ApiResponse>;
   sendReplayBatch: (data: ReplayBatchRequest) => Promise<ReplayBatchResponse>;
+  /** Returns how many leading events were handed to the browser */
+  sendBatchedEventsOnUnload: (data: BatchRequest) => number;
+  endCurrentSessionOnUnload: (data: SessionEndRequest) => boolean;
+  getTransportStats: () => TransportStats;
+  canSendNow: () => boolean;
+  getRetryDelayMs: () => number;
+  getCircuitState: () => CircuitState;
+  isEventTypeBlocked: (eventType: EventType) => boolean;
+  isReplayDisabled: () => boolean;
+  /** Resolves to null when the transport has no config endpoint */
+  fetchRemoteConfig: (
+    data: RemoteConfigRequest
+  ) => Promise<RemoteConfigResponse | null>;
 };
 
-function createHttpClient(baseUrl: string, apiKey?: string) {
-  return ky.create({
-    prefixUrl: baseUrl,
-    timeout: TEN_SECONDS_TIMEOUT_MS,
-    retry: {
-      limit: MAX_RETRY_ATTEMPTS,
-      methods: ['post'],
-      statusCodes: RETRYABLE_HTTP_STATUS_CODES,
-    },
-    ...(apiKey ? { headers: { Authorization: `Bearer ${apiKey}` } } : {}),
+interface DirectiveState {
+  blockedEventTypes: Set<EventType>;
+  replayDisabled: boolean;
+}
+
+const RETRYABLE_HTTP_STATUS_CODES = new Set([408, 429, 500, 502, 503, 504]);
+
+const RETRY_AFTER_STATUS_CODES = new Set([429, 503]);
+
+export class ApiRequestError extends Error {
+  readonly status: number | undefined;
+  readonly retryable: boolean;
+  readonly retryAfterMs: number | undefined;
+
+  constructor(
+    message: string,
+    status: number | undefined,
+    retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+    // Network failures carry no status and are always worth retrying
+    this.retryable =
+      status === undefined || RETRYABLE_HTTP_STATUS_CODES.has(status);
+  }
+}
+
+/** Thrown without touching the network while the circuit is open or paused */
+export class CircuitOpenError extends ApiRequestError {
+  constructor(retryAfterMs: number) {
+    super('Ingest endpoint circuit is open', undefined, retryAfterMs);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export function isRetryableApiError(error: unknown): boolean {
+  return !(error instanceof ApiRequestError) || error.retryable;
+}
+
+export function isCircuitOpenError(error: unknown): boolean {
+  return error instanceof CircuitOpenError;
+}
+
+function parseRetryAfterMs(headerValue: string | null): number | undefined {
+  if (!headerValue) return undefined;
+
+  const seconds = Number(headerValue);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const retryDate = Date.parse(headerValue);
+  return Number.isNaN(retryDate)
+    ? undefined
+    : Math.max(0, retryDate - Date.now());
+}
+
+function getErrorRetryAfterMs(
+  error: unknown,
+  status: number | undefined
+): number | undefined {
+  if (status === undefined || !RETRY_AFTER_STATUS_CODES.has(status)) {
+    return undefined;
+  }
+
+  const candidate = error as {
+    response?: { headers?: { get?: (name: string) => string | null } };
+  } | null;
+  return parseRetryAfterMs(
+    candidate?.response?.headers?.get?.('Retry-After') ?? null
+  );
+}
+
+function getErrorStatus(error: unknown): number | undefined {
+  const candidate = error as {
+    status?: unknown;
+    response?: { status?: unknown };
+  } | null;
+  const status = candidate?.response?.status ?? candidate?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+function toApiRequestError(action: string, error: unknown): ApiRequestError {
+  if (error instanceof CircuitOpenError) return error;
+
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  const status = getErrorStatus(error);
+  return new ApiRequestError(
+    `${action}: ${errorMessage}`,
+    status,
+    getErrorRetryAfterMs(error, status)
+  );
+}
+
+function withSdkInfo<T extends object>(data: T): T {
+  return { ...data, sdk: { name: SDK_NAME, version: SDK_VERSION } };
+}
+
+function withBatchEnvelope(batchData: BatchRequest): BatchRequest {
+  return withSdkInfo({
+    ...batchData,
+    idempotencyKey:
+      batchData.idempotencyKey ?? createBatchIdempotencyKey(batchData.events),
   });
 }
 
+const EMPTY_TRANSPORT_STATS: TransportStats = {
+  requestCount: 0,
+  compressedRequestCount: 0,
+  rawBytes: 0,
+  sentBytes: 0,
+};
+
+function applyDirectives(
+  directives: IngestDirectives | undefined,
+  directiveState: DirectiveState,
+  breaker: CircuitBreaker
+): void {
+  if (!directives) return;
+
+  if (directives.pauseMs && directives.pauseMs > 0) {
+    breaker.pauseFor(directives.pauseMs);
+  }
+  for (const eventType of directives.blockedEventTypes ?? []) {
+    directiveState.blockedEventTypes.add(eventType);
+  }
+  if (directives.disableReplay) {
+    directiveState.replayDisabled = true;
+  }
+}
+
+function createGuardedTransport(
+  transport: Transport,
+  breaker: CircuitBreaker,
+  directiveState: DirectiveState
+): Transport {
+  async function guard<T extends { directives?: IngestDirectives }>(
+    request: () => Promise<T>
+  ): Promise<T> {
+    if (!breaker.tryAcquire()) {
+      throw new CircuitOpenError(breaker.getRemainingBlockMs());
+    }
+
+    try {
+      const response = await request();
+      breaker.recordSuccess();
+      applyDirectives(response?.directives, directiveState, breaker);
+      return response;
+    } catch (error) {
+      const status = getErrorStatus(error);
+      if (status !== undefined && !RETRYABLE_HTTP_STATUS_CODES.has(status)) {
+        // The endpoint answered; a rejected payload says nothing about its health
+        breaker.recordSuccess();
+      } else {
+        breaker.recordFailure(getErrorRetryAfterMs(error, status));
+      }
+      throw error;
+    }
+  }
+
+  return {
+    ...transport,
+    send: async data => guard(() => transport.send(data)),
+    sendBatch: async data => guard(() => transport.sendBatch(data)),
+    startSession: async data => guard(() => transport.startSession(data)),
+    endSession: async data => guard(() => transport.endSession(data)),
+    sendReplay: async data => guard(() => transport.sendReplay(data)),
+  };
+}
+
 async function sendTrackRequest(
-  httpClient: ReturnType<typeof ky.create>,
+  transport: Transport,
   trackData: TrackRequest
 ): Promise<ApiResponse> {
   try {
-    return await httpClient
-      .post('track', { json: trackData })
-      .json<ApiResponse>();
+    return await transport.send(trackData);
   } catch (error) {
-    const errorMessage =
-      error instanceof Error ? error.message : 'Unknown error';
-    throw new Error(`Failed to send tracking event: ${errorMessage}`);
+    throw toApiRequestError('Failed to send tracking event', error);
   }
 }
 
 async function sendBatchRequest(
-  httpClient: ReturnType<typeof ky.create>,
+  transport: Transport,
   batchData: BatchRequest
 ): Promise<BatchResponse> {
   try {
-    return await httpClient
-      .post('batch', { json: batchData })
-      .json<BatchResponse>();
+    return await transport.sendBatch(batchData);
   } catch (error) {
-    const errorMessage =
-      error instanceof Error ? error.message : 'Unknown error';
-    throw new Error(`Failed to send batched events: ${errorMessage}`);
+    throw toApiRequestError('Failed to send batched events', error);
   }
 }
 
 async function sendSessionStartRequest(
-  httpClient: ReturnType<typeof ky.create>,
+  transport: Transport,
   sessionData: SessionStartRequest
 ): Promise<SessionResponse> {
   try {
-    return await httpClient
-      .post('session/start', { json: sessionData })
-      .json<SessionResponse>();
+    return await transport.startSession(sessionData);
   } catch (error) {
-    const errorMessage =
-      error instanceof Error ? error.message : 'Unknown error';
-    throw new Error(`Failed to start session: ${errorMessage}`);
+    throw toApiRequestError('Failed to start session', error);
   }
 }
 
 async function sendSessionEndRequest(
-  httpClient: ReturnType<typeof ky.create>,
+  transport: Transport,
   sessionEndData: SessionEndRequest
 ): Promise<ApiResponse> {
   try {
-    return await httpClient
-      .post('session/end', { json: sessionEndData })
-      .json<ApiResponse>();
+    return await transport.endSession(sessionEndData);
   } catch (error) {
-    const errorMessage =
-      error instanceof Error ? error.message : 'Unknown error';
-    throw new Error(`Failed to end session: ${errorMessage}`);
+    throw toApiRequestError('Failed to end session', error);
   }
 }
 
 async function sendReplayBatchRequest(
-  httpClient: ReturnType<typeof ky.create>,
+  transport: Transport,
   replayData: ReplayBatchRequest
 ): Promise<ReplayBatchResponse> {
   try {
-    return await httpClient
-      .post('replay/batch', { json: replayData })
-      .json<ReplayBatchResponse>();
+    return await transport.sendReplay(replayData);
+  } catch (error) {
+    throw toApiRequestError('Failed to send replay batch', error);
+  }
+}
+
+// Bypasses the circuit breaker: it runs once, before any event traffic exists
+async function fetchRemoteConfigRequest(
+  transport: Transport,
+  configData: RemoteConfigRequest
+): Promise<RemoteConfigResponse | null> {
+  if (!transport.fetchConfig) return null;
+
+  try {
+    return await transport.fetchConfig(configData);
   } catch (error) {
-    const errorMessage =
-      error instanceof Error ? error.message : 'Unknown error';
-    throw new Error(`Failed to send replay batch: ${errorMessage}`);
+    throw toApiRequestError('Failed to fetch remote config', error);
+  }
+}
+
+// Transports without an unload path get a best-effort asynchronous send
+function sendBatchOnUnload(
+  transport: Transport,
+  breaker: CircuitBreaker,
+  batchData: BatchRequest
+): number {
+  // Left persisted for the next page load instead of hitting a failing endpoint
+  if (breaker.isBlocked()) return 0;
+
+  if (transport.sendBatchOnUnload) {
+    return transport.sendBatchOnUnload(batchData);
   }
+
+  transport.sendBatch(batchData).catch(() => {});
+  return batchData.events.length;
+}
+
+function sendSessionEndOnUnload(
+  transport: Transport,
+  breaker: CircuitBreaker,
+  sessionEndData: SessionEndRequest
+): boolean {
+  if (breaker.isBlocked()) return false;
+
+  if (transport.endSessionOnUnload) {
+    return transport.endSessionOnUnload(sessionEndData);
+  }
+
+  transport.endSession(sessionEndData).catch(() => {});
+  return true;
 }
 
-export function createApiClient(baseUrl: string, apiKey?: string): ApiClient {
-  const httpClient = createHttpClient(baseUrl, apiKey);
+export function createApiClient(
+  rawTransport: Transport,
+  circuitBreakerConfig: CircuitBreakerConfig
+): ApiClient {
+  const breaker = createCircuitBreaker(circuitBreakerConfig);
+  const directiveState: DirectiveState = {
+    blockedEventTypes: new Set(),
+    replayDisabled: false,
+  };
+  const transport = createGuardedTransport(
+    rawTransport,
+    breaker,
+    directiveState
+  );
 
   return {
+    transportName: transport.name,
     sendTrackingEvent: async (data: TrackRequest) =>
-      sendTrackRequest(httpClient, data),
+      sendTrackRequest(transport, withSdkInfo(data)),
     sendBatchedEvents: async (data: BatchRequest) =>
-      sendBatchRequest(httpClient, data),
+      sendBatchRequest(transport, withBatchEnvelope(data)),
     startNewSession: async (data: SessionStartRequest) =>
-      sendSessionStartRequest(httpClient, data),
+      sendSessionStartRequest(transport, withSdkInfo(data)),
     endCurrentSession: async (data: SessionEndRequest) =>
-      sendSessionEndRequest(httpClient, data),
+      sendSessionEndRequest(transport, withSdkInfo(data)),
     sendReplayBatch: async (data: ReplayBatchRequest) =>
-      sendReplayBatchRequest(httpClient, data),
+      sendReplayBatchRequest(transport, withSdkInfo(data)),
+    sendBatchedEventsOnUnload: (data: BatchRequest) =>
+      sendBatchOnUnload(rawTransport, breaker, withBatchEnvelope(data)),
+    endCurrentSessionOnUnload: (data: SessionEndRequest) =>
+      sendSessionEndOnUnload(rawTransport, breaker, withSdkInfo(data)),
+    getTransportStats: () =>
+      rawTransport.getStats?.() ?? { ...EMPTY_TRANSPORT_STATS },
+    canSendNow: () => !breaker.isBlocked(),
+    getRetryDelayMs: () => breaker.getRemainingBlockMs(),
+    getCircuitState: () => breaker.getState(),
+    isEventTypeBlocked: (eventType: EventType) =>
+      directiveState.blockedEventTypes.has(eventType),
+    isReplayDisabled: () => directiveState.replayDisabled,
+    fetchRemoteConfig: async (data: RemoteConfigRequest) =>
+      fetchRemoteConfigRequest(rawTransport, data),
   };
 }
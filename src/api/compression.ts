@@ -0,0 +1,378 @@
+import type { CompressionConfig, ContentEncoding } from '../types';
+
+const WINDOW_SIZE = 32768;
+const MIN_MATCH_LENGTH = 3;
+const MAX_MATCH_LENGTH = 258;
+const MAX_CHAIN_LENGTH = 32;
+const HASH_SIZE = 1 << 15;
+const END_OF_BLOCK_SYMBOL = 256;
+const BYTE_MASK = 255;
+const CRC32_POLYNOMIAL = 3988292384; // 0xEDB88320, reversed
+const CRC32_INITIAL = 4294967295; // 0xFFFFFFFF
+const ADLER32_MODULUS = 65521;
+// Magic, CM=deflate, no flags, no mtime, XFL=0, OS=unknown
+const GZIP_HEADER = [31, 139, 8, 0, 0, 0, 0, 0, 0, 255];
+const ZLIB_HEADER = [120, 1];
+
+const LENGTH_BASES = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67,
+  83, 99, 115, 131, 163, 195, 227, 258,
+];
+const LENGTH_EXTRA_BITS = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5,
+  5, 5, 0,
+];
+const DISTANCE_BASES = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769,
+  1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const DISTANCE_EXTRA_BITS = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11,
+  11, 12, 12, 13, 13,
+];
+
+export const DEFAULT_COMPRESSION_CONFIG: CompressionConfig = {
+  enabled: false,
+  encoding: 'gzip',
+  thresholdBytes: 1024,
+};
+
+export interface EncodedPayload {
+  body: string | Uint8Array;
+  contentEncoding: ContentEncoding | null;
+  rawByteLength: number;
+  byteLength: number;
+}
+
+let crc32Table: Uint32Array | null = null;
+
+function getCrc32Table(): Uint32Array {
+  if (crc32Table) return crc32Table;
+
+  crc32Table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? CRC32_POLYNOMIAL ^ (c >>> 1) : c >>> 1;
+    }
+    crc32Table[n] = c >>> 0;
+  }
+  return crc32Table;
+}
+
+function computeCrc32(data: Uint8Array): number {
+  const table = getCrc32Table();
+  let crc = CRC32_INITIAL;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & BYTE_MASK] ^ (crc >>> 8);
+  }
+  return (crc ^ CRC32_INITIAL) >>> 0;
+}
+
+function computeAdler32(data: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < data.length; i++) {
+    a = (a + data[i]) % ADLER32_MODULUS;
+    b = (b + a) % ADLER32_MODULUS;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+function createBitWriter(initialCapacity: number) {
+  let buffer = new Uint8Array(Math.max(64, initialCapacity));
+  let byteOffset = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  function ensureCapacity(extraBytes: number): void {
+    if (byteOffset + extraBytes <= buffer.length) return;
+    const grown = new Uint8Array((buffer.length + extraBytes) * 2);
+    grown.set(buffer);
+    buffer = grown;
+  }
+
+  function writeBits(value: number, length: number): void {
+    bitBuffer |= value << bitCount;
+    bitCount += length;
+    ensureCapacity(4);
+    while (bitCount >= 8) {
+      buffer[byteOffset++] = bitBuffer & BYTE_MASK;
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  }
+
+  // Huffman codes are packed most-significant bit first
+  function writeHuffmanCode(code: number, length: number): void {
+    let reversed = 0;
+    for (let i = 0; i < length; i++) {
+      reversed = (reversed << 1) | ((code >>> i) & 1);
+    }
+    writeBits(reversed, length);
+  }
+
+  function finish(): Uint8Array {
+    if (bitCount > 0) {
+      ensureCapacity(1);
+      buffer[byteOffset++] = bitBuffer & BYTE_MASK;
+      bitBuffer = 0;
+      bitCount = 0;
+    }
+    return buffer.subarray(0, byteOffset);
+  }
+
+  return { writeBits, writeHuffmanCode, finish };
+}
+
+type BitWriter = ReturnType<typeof createBitWriter>;
+
+function writeLiteralOrLengthSymbol(writer: BitWriter, symbol: number): void {
+  if (symbol < 144) writer.writeHuffmanCode(48 + symbol, 8);
+  else if (symbol < 256) writer.writeHuffmanCode(400 + symbol - 144, 9);
+  else if (symbol < 280) writer.writeHuffmanCode(symbol - 256, 7);
+  else writer.writeHuffmanCode(192 + symbol - 280, 8);
+}
+
+function findCodeIndex(bases: number[], value: number): number {
+  let index = bases.length - 1;
+  while (bases[index] > value) index--;
+  return index;
+}
+
+function writeMatch(writer: BitWriter, length: number, distance: number): void {
+  const lengthIndex = findCodeIndex(LENGTH_BASES, length);
+  writeLiteralOrLengthSymbol(writer, 257 + lengthIndex);
+  writer.writeBits(
+    length - LENGTH_BASES[lengthIndex],
+    LENGTH_EXTRA_BITS[lengthIndex]
+  );
+
+  const distanceIndex = findCodeIndex(DISTANCE_BASES, distance);
+  writer.writeHuffmanCode(distanceIndex, 5);
+  writer.writeBits(
+    distance - DISTANCE_BASES[distanceIndex],
+    DISTANCE_EXTRA_BITS[distanceIndex]
+  );
+}
+
+function hashAt(data: Uint8Array, position: number): number {
+  return (
+    ((data[position] << 10) ^ (data[position + 1] << 5) ^ data[position + 2]) &
+    (HASH_SIZE - 1)
+  );
+}
+
+/**
+ * Minimal raw DEFLATE encoder (single fixed-Huffman block with LZ77 matching).
+ * Trades ratio for size; only used where CompressionStream is unavailable or
+ * a synchronous result is required.
+ */
+function deflateRaw(data: Uint8Array): Uint8Array {
+  const writer = createBitWriter(data.length / 2);
+  const head = new Int32Array(HASH_SIZE).fill(-1);
+  const previous = new Int32Array(WINDOW_SIZE);
+
+  writer.writeBits(1, 1); // BFINAL
+  writer.writeBits(1, 2); // BTYPE = fixed Huffman
+
+  function insertHash(position: number): void {
+    if (position + MIN_MATCH_LENGTH > data.length) return;
+    const hash = hashAt(data, position);
+    previous[position % WINDOW_SIZE] = head[hash];
+    head[hash] = position;
+  }
+
+  let position = 0;
+  while (position < data.length) {
+    let bestLength = 0;
+    let bestDistance = 0;
+
+    if (position + MIN_MATCH_LENGTH <= data.length) {
+      let candidate = head[hashAt(data, position)];
+      let chainLength = 0;
+      const maxLength = Math.min(MAX_MATCH_LENGTH, data.length - position);
+
+      while (
+        candidate >= 0 &&
+        position - candidate <= WINDOW_SIZE &&
+        chainLength++ < MAX_CHAIN_LENGTH
+      ) {
+        let length = 0;
+        while (
+          length < maxLength &&
+          data[candidate + length] === data[position + length]
+        ) {
+          length++;
+        }
+        if (length > bestLength) {
+          bestLength = length;
+          bestDistance = position - candidate;
+          if (length === maxLength) break;
+        }
+        candidate = previous[candidate % WINDOW_SIZE];
+      }
+    }
+
+    if (bestLength >= MIN_MATCH_LENGTH) {
+      writeMatch(writer, bestLength, bestDistance);
+      for (let i = 0; i < bestLength; i++) insertHash(position + i);
+      position += bestLength;
+    } else {
+      writeLiteralOrLengthSymbol(writer, data[position]);
+      insertHash(position);
+      position++;
+    }
+  }
+
+  writeLiteralOrLengthSymbol(writer, END_OF_BLOCK_SYMBOL);
+  return writer.finish();
+}
+
+function writeUint32LittleEndian(
+  target: Uint8Array,
+  offset: number,
+  value: number
+): void {
+  target[offset] = value & BYTE_MASK;
+  target[offset + 1] = (value >>> 8) & BYTE_MASK;
+  target[offset + 2] = (value >>> 16) & BYTE_MASK;
+  target[offset + 3] = (value >>> 24) & BYTE_MASK;
+}
+
+function wrapGzip(data: Uint8Array, deflated: Uint8Array): Uint8Array {
+  const output = new Uint8Array(10 + deflated.length + 8);
+  output.set(GZIP_HEADER);
+  output.set(deflated, 10);
+  writeUint32LittleEndian(output, 10 + deflated.length, computeCrc32(data));
+  writeUint32LittleEndian(output, 14 + deflated.length, data.length >>> 0);
+  return output;
+}
+
+function wrapZlib(data: Uint8Array, deflated: Uint8Array): Uint8Array {
+  const output = new Uint8Array(2 + deflated.length + 4);
+  output.set(ZLIB_HEADER);
+  output.set(deflated, 2);
+
+  const adler = computeAdler32(data);
+  const trailerOffset = 2 + deflated.length;
+  output[trailerOffset] = (adler >>> 24) & BYTE_MASK;
+  output[trailerOffset + 1] = (adler >>> 16) & BYTE_MASK;
+  output[trailerOffset + 2] = (adler >>> 8) & BYTE_MASK;
+  output[trailerOffset + 3] = adler & BYTE_MASK;
+  return output;
+}
+
+function compressWithFallback(
+  data: Uint8Array,
+  encoding: ContentEncoding
+): Uint8Array {
+  const deflated = deflateRaw(data);
+  return encoding === 'gzip'
+    ? wrapGzip(data, deflated)
+    : wrapZlib(data, deflated);
+}
+
+export function buildContentHeaders(
+  payload: EncodedPayload
+): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    ...(payload.contentEncoding
+      ? { 'Content-Encoding': payload.contentEncoding }
+      : {}),
+  };
+}
+
+async function compressWithStream(
+  data: Uint8Array,
+  encoding: ContentEncoding
+): Promise<Uint8Array> {
+  const compressedStream = new Blob([data as BlobPart])
+    .stream()
+    .pipeThrough(new CompressionStream(encoding));
+  return new Uint8Array(await new Response(compressedStream).arrayBuffer());
+}
+
+function isCompressionStreamSupported(): boolean {
+  return typeof CompressionStream !== 'undefined';
+}
+
+function buildUncompressedPayload(
+  json: string,
+  rawByteLength: number
+): EncodedPayload {
+  return {
+    body: json,
+    contentEncoding: null,
+    rawByteLength,
+    byteLength: rawByteLength,
+  };
+}
+
+function pickSmallerPayload(
+  json: string,
+  rawByteLength: number,
+  compressed: Uint8Array,
+  encoding: ContentEncoding
+): EncodedPayload {
+  // Incompressible payloads are cheaper to send as-is
+  if (compressed.byteLength >= rawByteLength) {
+    return buildUncompressedPayload(json, rawByteLength);
+  }
+
+  return {
+    body: compressed,
+    contentEncoding: encoding,
+    rawByteLength,
+    byteLength: compressed.byteLength,
+  };
+}
+
+export async function encodeJsonBody(
+  json: string,
+  config: CompressionConfig
+): Promise<EncodedPayload> {
+  const rawBytes = new TextEncoder().encode(json);
+
+  if (!config.enabled || rawBytes.byteLength < config.thresholdBytes) {
+    return buildUncompressedPayload(json, rawBytes.byteLength);
+  }
+
+  try {
+    const compressed = isCompressionStreamSupported()
+      ? await compressWithStream(rawBytes, config.encoding)
+      : compressWithFallback(rawBytes, config.encoding);
+    return pickSmallerPayload(
+      json,
+      rawBytes.byteLength,
+      compressed,
+      config.encoding
+    );
+  } catch {
+    return buildUncompressedPayload(json, rawBytes.byteLength);
+  }
+}
+
+/** Synchronous variant for page unload, where awaiting a stream is not an option */
+export function encodeJsonBodySync(
+  json: string,
+  config: CompressionConfig
+): EncodedPayload {
+  const rawBytes = new TextEncoder().encode(json);
+
+  if (!config.enabled || rawBytes.byteLength < config.thresholdBytes) {
+    return buildUncompressedPayload(json, rawBytes.byteLength);
+  }
+
+  try {
+    return pickSmallerPayload(
+      json,
+      rawBytes.byteLength,
+      compressWithFallback(rawBytes, config.encoding),
+      config.encoding
+    );
+  } catch {
+    return buildUncompressedPayload(json, rawBytes.byteLength);
+  }
+}
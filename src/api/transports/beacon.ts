@@ -0,0 +1,249 @@
+import type {
+  ApiResponse,
+  BaseEvent,
+  BatchRequest,
+  CompressionConfig,
+  Transport,
+} from '../../types';
+import type { EncodedPayload } from '../compression';
+import type { TransportByteCounter } from './byte-counter';
+import { createBatchIdempotencyKey } from '../../utils/id';
+import {
+  buildContentHeaders,
+  DEFAULT_COMPRESSION_CONFIG,
+  encodeJsonBodySync,
+} from '../compression';
+import { createTransportByteCounter } from './byte-counter';
+
+// Browsers cap the combined body size of in-flight keepalive/beacon requests
+const KEEPALIVE_BODY_BUDGET_BYTES = 64 * 1024;
+const TRAILING_SLASHES_PATTERN = /\/+$/;
+
+export interface BeaconTransportOptions {
+  baseUrl: string;
+  // Needs keepalive fetch: sendBeacon can't send it, so it is never used then
+  apiKey?: string;
+  compression?: Partial<CompressionConfig>;
+}
+
+export type UnloadSender = (
+  path: string,
+  payload: unknown,
+  compressible?: boolean
+) => boolean;
+
+function measureByteLength(value: string): number {
+  return new TextEncoder().encode(value).byteLength;
+}
+
+function buildEndpointUrl(baseUrl: string, path: string): string {
+  return `${baseUrl.replace(TRAILING_SLASHES_PATTERN, '')}/${path}`;
+}
+
+function trySendWithKeepaliveFetch(
+  url: string,
+  payload: EncodedPayload,
+  apiKey: string | undefined,
+  onSettled: () => void
+): boolean {
+  if (typeof fetch !== 'function') return false;
+
+  try {
+    fetch(url, {
+      method: 'POST',
+      body: payload.body as BodyInit,
+      keepalive: true,
+      headers: {
+        ...buildContentHeaders(payload),
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+    })
+      .catch(() => {})
+      .finally(onSettled);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function trySendWithBeacon(url: string, body: string): boolean {
+  if (typeof navigator === 'undefined' || !navigator.sendBeacon) return false;
+
+  try {
+    return navigator.sendBeacon(
+      url,
+      new Blob([body], { type: 'application/json' })
+    );
+  } catch {
+    return false;
+  }
+}
+
+export function createUnloadSender(
+  baseUrl: string,
+  apiKey: string | undefined,
+  compression: CompressionConfig,
+  byteCounter: TransportByteCounter
+): UnloadSender {
+  let inFlightBytes = 0;
+
+  function fitsInBudget(byteLength: number): boolean {
+    return inFlightBytes + byteLength <= KEEPALIVE_BODY_BUDGET_BYTES;
+  }
+
+  return (path, payload, compressible = false) => {
+    const url = buildEndpointUrl(baseUrl, path);
+    const json = JSON.stringify(payload);
+    const encodedPayload = encodeJsonBodySync(json, {
+      ...compression,
+      enabled: compression.enabled && compressible,
+    });
+    const { byteLength, rawByteLength } = encodedPayload;
+
+    if (fitsInBudget(byteLength)) {
+      inFlightBytes += byteLength;
+      const sentWithFetch = trySendWithKeepaliveFetch(
+        url,
+        encodedPayload,
+        apiKey,
+        () => {
+          inFlightBytes -= byteLength;
+        }
+      );
+      if (sentWithFetch) {
+        byteCounter.recordPayload(encodedPayload);
+        return true;
+      }
+      inFlightBytes -= byteLength;
+    }
+
+    // Beacons can set neither Authorization nor Content-Encoding, so they
+    // carry the raw JSON and are only the fallback. An authenticated project
+    // would have them rejected, so the request counts as not sent instead
+    if (
+      apiKey ||
+      !fitsInBudget(rawByteLength) ||
+      !trySendWithBeacon(url, json)
+    ) {
+      return false;
+    }
+
+    byteCounter.recordPayload({
+      body: json,
+      contentEncoding: null,
+      rawByteLength,
+      byteLength: rawByteLength,
+    });
+    return true;
+  };
+}
+
+function splitEventsIntoBudgetedBatches(
+  batchData: BatchRequest
+): BaseEvent[][] {
+  const envelopeBytes = measureByteLength(
+    JSON.stringify({ ...batchData, events: [] })
+  );
+  const batches: BaseEvent[][] = [];
+  let currentBatch: BaseEvent[] = [];
+  let currentBytes = envelopeBytes;
+
+  for (const event of batchData.events) {
+    // +1 for the separating comma
+    const eventBytes = measureByteLength(JSON.stringify(event)) + 1;
+
+    if (
+      currentBatch.length > 0 &&
+      currentBytes + eventBytes > KEEPALIVE_BODY_BUDGET_BYTES
+    ) {
+      batches.push(currentBatch);
+      currentBatch = [];
+      currentBytes = envelopeBytes;
+    }
+
+    currentBatch.push(event);
+    currentBytes += eventBytes;
+  }
+
+  if (currentBatch.length > 0) batches.push(currentBatch);
+
+  return batches;
+}
+
+export function sendBatchOnUnload(
+  unloadSender: UnloadSender,
+  batchData: BatchRequest
+): number {
+  const batches = splitEventsIntoBudgetedBatches(batchData);
+  let sentEventCount = 0;
+
+  for (const events of batches) {
+    // A split batch is a different set of events, so it needs its own key
+    const idempotencyKey =
+      batches.length > 1 && batchData.idempotencyKey
+        ? createBatchIdempotencyKey(events)
+        : batchData.idempotencyKey;
+    if (
+      !unloadSender('batch', { ...batchData, events, idempotencyKey }, true)
+    ) {
+      break;
+    }
+    sentEventCount += events.length;
+  }
+
+  return sentEventCount;
+}
+
+function sendOrThrow(
+  unloadSender: UnloadSender,
+  path: string,
+  payload: unknown,
+  compressible = false
+): ApiResponse {
+  if (!unloadSender(path, payload, compressible)) {
+    throw new Error('Beacon request was not accepted by the browser');
+  }
+  return { success: true };
+}
+
+/** Fire-and-forget transport: responses are synthesized once the browser accepts the request */
+export function createBeaconTransport(
+  options: BeaconTransportOptions
+): Transport {
+  const byteCounter = createTransportByteCounter();
+  const unloadSender = createUnloadSender(
+    options.baseUrl,
+    options.apiKey,
+    { ...DEFAULT_COMPRESSION_CONFIG, ...options.compression },
+    byteCounter
+  );
+
+  return {
+    name: 'beacon',
+    send: async data => sendOrThrow(unloadSender, 'track', data),
+    sendBatch: async data => {
+      const sentEventCount = sendBatchOnUnload(unloadSender, data);
+      const failedEventCount = data.events.length - sentEventCount;
+      return {
+        success: failedEventCount === 0,
+        processed: sentEventCount,
+        failed: failedEventCount,
+        errors: data.events.slice(sentEventCount).map((_, offset) => ({
+          index: sentEventCount + offset,
+          error: 'Beacon request was not accepted by the browser',
+          // The browser refused or ran out of keepalive budget; the server
+          // never saw these events
+          retryable: true,
+        })),
+      };
+    },
+    startSession: async data =>
+      sendOrThrow(unloadSender, 'session/start', data),
+    endSession: async data => sendOrThrow(unloadSender, 'session/end', data),
+    sendReplay: async data =>
+      sendOrThrow(unloadSender, 'replay/batch', data, true),
+    sendBatchOnUnload: data => sendBatchOnUnload(unloadSender, data),
+    endSessionOnUnload: data => unloadSender('session/end', data),
+    getStats: () => byteCounter.getStats(),
+  };
+}
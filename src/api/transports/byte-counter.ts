@@ -0,0 +1,26 @@
+import type { TransportStats } from '../../types';
+import type { EncodedPayload } from '../compression';
+
+export interface TransportByteCounter {
+  recordPayload: (payload: EncodedPayload) => void;
+  getStats: () => TransportStats;
+}
+
+export function createTransportByteCounter(): TransportByteCounter {
+  const stats: TransportStats = {
+    requestCount: 0,
+    compressedRequestCount: 0,
+    rawBytes: 0,
+    sentBytes: 0,
+  };
+
+  return {
+    recordPayload: payload => {
+      stats.requestCount++;
+      if (payload.contentEncoding) stats.compressedRequestCount++;
+      stats.rawBytes += payload.rawByteLength;
+      stats.sentBytes += payload.byteLength;
+    },
+    getStats: () => ({ ...stats }),
+  };
+}
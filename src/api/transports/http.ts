@@ -0,0 +1,125 @@
+import type {
+  CompressionConfig,
+  RemoteConfig,
+  RemoteConfigRequest,
+  RemoteConfigResponse,
+  Transport,
+} from '../../types';
+import type { TransportByteCounter } from './byte-counter';
+import ky from 'ky';
+import {
+  buildContentHeaders,
+  DEFAULT_COMPRESSION_CONFIG,
+  encodeJsonBody,
+} from '../compression';
+import { createUnloadSender, sendBatchOnUnload } from './beacon';
+import { createTransportByteCounter } from './byte-counter';
+
+const TEN_SECONDS_TIMEOUT_MS = 10000;
+const RETRYABLE_HTTP_STATUS_CODES = [408, 413, 429, 500, 502, 503, 504];
+// Sustained outages are left to the ApiClient's circuit breaker; ky only
+// smooths over a single transient blip
+const MAX_RETRY_ATTEMPTS = 1;
+
+export interface HttpTransportOptions {
+  baseUrl: string;
+  apiKey?: string;
+  compression?: Partial<CompressionConfig>;
+}
+
+type HttpClient = ReturnType<typeof ky.create>;
+
+type JsonPoster = <T>(
+  path: string,
+  payload: unknown,
+  compressible?: boolean
+) => Promise<T>;
+
+function createHttpClient(baseUrl: string, apiKey?: string): HttpClient {
+  return ky.create({
+    prefixUrl: baseUrl,
+    timeout: TEN_SECONDS_TIMEOUT_MS,
+    retry: {
+      limit: MAX_RETRY_ATTEMPTS,
+      methods: ['post'],
+      statusCodes: RETRYABLE_HTTP_STATUS_CODES,
+    },
+    ...(apiKey ? { headers: { Authorization: `Bearer ${apiKey}` } } : {}),
+  });
+}
+
+function createJsonPoster(
+  httpClient: HttpClient,
+  compression: CompressionConfig,
+  byteCounter: TransportByteCounter
+): JsonPoster {
+  return async <T>(path: string, payload: unknown, compressible = false) => {
+    const encodedPayload = await encodeJsonBody(JSON.stringify(payload), {
+      ...compression,
+      enabled: compression.enabled && compressible,
+    });
+    byteCounter.recordPayload(encodedPayload);
+
+    return httpClient
+      .post(path, {
+        body: encodedPayload.body as BodyInit,
+        headers: buildContentHeaders(encodedPayload),
+      })
+      .json<T>();
+  };
+}
+
+const HTTP_NOT_MODIFIED = 304;
+
+async function fetchRemoteConfig(
+  httpClient: HttpClient,
+  data: RemoteConfigRequest
+): Promise<RemoteConfigResponse> {
+  const response = await httpClient.get('config', {
+    searchParams: { projectId: data.projectId },
+    headers: data.etag ? { 'If-None-Match': data.etag } : undefined,
+    retry: 0,
+    // ky treats 304 as an error; it is the expected answer for a cached config
+    throwHttpErrors: false,
+  });
+
+  if (response.status === HTTP_NOT_MODIFIED) return { notModified: true };
+  if (!response.ok) {
+    throw new Error(`Config request failed with status ${response.status}`);
+  }
+
+  return {
+    notModified: false,
+    config: await response.json<RemoteConfig>(),
+    etag: response.headers.get('ETag') ?? undefined,
+  };
+}
+
+export function createHttpTransport(options: HttpTransportOptions): Transport {
+  const compression = {
+    ...DEFAULT_COMPRESSION_CONFIG,
+    ...options.compression,
+  };
+  const byteCounter = createTransportByteCounter();
+  const httpClient = createHttpClient(options.baseUrl, options.apiKey);
+  const postJson = createJsonPoster(httpClient, compression, byteCounter);
+  const unloadSender = createUnloadSender(
+    options.baseUrl,
+    options.apiKey,
+    compression,
+    byteCounter
+  );
+
+  return {
+    name: 'http',
+    send: async data => postJson('track', data),
+    sendBatch: async data => postJson('batch', data, true),
+    startSession: async data => postJson('session/start', data),
+    endSession: async data => postJson('session/end', data),
+    sendReplay: async data => postJson('replay/batch', data, true),
+    sendBatchOnUnload: data => sendBatchOnUnload(unloadSender, data),
+    endSessionOnUnload: data => unloadSender('session/end', data),
+    getStats: () => byteCounter.getStats(),
+    fetchConfig: async data => fetchRemoteConfig(httpClient, data),
+  };
+}
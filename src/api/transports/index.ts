@@ -0,0 +1,11 @@
+export { createBeaconTransport } from './beacon';
+export type { BeaconTransportOptions } from './beacon';
+export { createHttpTransport } from './http';
+export type { HttpTransportOptions } from './http';
+export { createMemoryTransport } from './memory';
+export type { MemoryTransport, RecordedRequest } from './memory';
+export { createPostMessageTransport } from './post-message';
+export type {
+  PostMessageEnvelope,
+  PostMessageTransportOptions,
+} from './post-message';
@@ -0,0 +1,62 @@
+import type { Transport, TransportRequestKind } from '../../types';
+
+export interface RecordedRequest {
+  kind: TransportRequestKind;
+  payload: unknown;
+  timestamp: number;
+  duringUnload: boolean;
+}
+
+export interface MemoryTransport extends Transport {
+  requests: RecordedRequest[];
+  clearRequests: () => void;
+}
+
+/** Records every request instead of sending it; intended for tests and local development */
+export function createMemoryTransport(): MemoryTransport {
+  const requests: RecordedRequest[] = [];
+
+  function record(
+    kind: TransportRequestKind,
+    payload: unknown,
+    duringUnload = false
+  ): void {
+    requests.push({ kind, payload, timestamp: Date.now(), duringUnload });
+  }
+
+  return {
+    name: 'memory',
+    requests,
+    clearRequests: () => {
+      requests.length = 0;
+    },
+    send: async data => {
+      record('track', data);
+      return { success: true };
+    },
+    sendBatch: async data => {
+      record('batch', data);
+      return { success: true, processed: data.events.length, failed: 0 };
+    },
+    startSession: async data => {
+      record('session/start', data);
+      return { success: true, sessionId: data.sessionId };
+    },
+    endSession: async data => {
+      record('session/end', data);
+      return { success: true };
+    },
+    sendReplay: async data => {
+      record('replay/batch', data);
+      return { success: true };
+    },
+    sendBatchOnUnload: data => {
+      record('batch', data, true);
+      return data.events.length;
+    },
+    endSessionOnUnload: data => {
+      record('session/end', data, true);
+      return true;
+    },
+  };
+}
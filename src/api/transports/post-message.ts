@@ -0,0 +1,81 @@
+import type { Transport, TransportRequestKind } from '../../types';
+
+const DEFAULT_MESSAGE_SOURCE = 'crow-sdk';
+
+export interface PostMessageTransportOptions {
+  targetOrigin: string;
+  target?: Window;
+  source?: string;
+}
+
+export interface PostMessageEnvelope {
+  source: string;
+  kind: TransportRequestKind;
+  payload: unknown;
+  duringUnload: boolean;
+}
+
+/**
+ * Forwards every request to another window (by default the embedding parent),
+ * which can relay it through its own first-party endpoint.
+ */
+export function createPostMessageTransport(
+  options: PostMessageTransportOptions
+): Transport {
+  const source = options.source ?? DEFAULT_MESSAGE_SOURCE;
+
+  function post(
+    kind: TransportRequestKind,
+    payload: unknown,
+    duringUnload = false
+  ): void {
+    const target = options.target ?? window.parent;
+    if (!target || target === window) {
+      throw new Error('No parent window to post Crow events to');
+    }
+
+    const envelope: PostMessageEnvelope = {
+      source,
+      kind,
+      payload,
+      duringUnload,
+    };
+    target.postMessage(envelope, options.targetOrigin);
+  }
+
+  function postOnUnload(kind: TransportRequestKind, payload: unknown): boolean {
+    try {
+      post(kind, payload, true);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  return {
+    name: 'post-message',
+    send: async data => {
+      post('track', data);
+      return { success: true };
+    },
+    sendBatch: async data => {
+      post('batch', data);
+      return { success: true, processed: data.events.length, failed: 0 };
+    },
+    startSession: async data => {
+      post('session/start', data);
+      return { success: true, sessionId: data.sessionId };
+    },
+    endSession: async data => {
+      post('session/end', data);
+      return { success: true };
+    },
+    sendReplay: async data => {
+      post('replay/batch', data);
+      return { success: true };
+    },
+    sendBatchOnUnload: data =>
+      postOnUnload('batch', data) ? data.events.length : 0,
+    endSessionOnUnload: data => postOnUnload('session/end', data),
+  };
+}
@@ -0,0 +1,209 @@
+import type { DeclarativeTrigger } from '../types';
+import type { Collector, CollectorContext } from './types';
+import { AUTOCAPTURE_IGNORE_SELECTOR } from '../constants';
+
+const EVENT_SELECTOR = '[data-crow-event]';
+const PROPERTY_DATASET_PREFIX = 'crowProp';
+const VIEW_THRESHOLD = 0.5;
+const DELEGATED_TRIGGERS = ['click', 'submit', 'change'] as const;
+
+// Form controls report changes and forms their submission unless told otherwise
+function getTrigger(element: HTMLElement): DeclarativeTrigger {
+  const declaredTrigger = element.dataset.crowTrigger;
+  if (
+    declaredTrigger === 'click' ||
+    declaredTrigger === 'submit' ||
+    declaredTrigger === 'view' ||
+    declaredTrigger === 'change'
+  ) {
+    return declaredTrigger;
+  }
+
+  if (element instanceof HTMLFormElement) return 'submit';
+  if (
+    element instanceof HTMLInputElement ||
+    element instanceof HTMLSelectElement ||
+    element instanceof HTMLTextAreaElement
+  ) {
+    return element.type === 'checkbox' ||
+      element.type === 'radio' ||
+      element.type === 'submit' ||
+      element.type === 'button'
+      ? 'click'
+      : 'change';
+  }
+  return 'click';
+}
+
+// "19.99" and "true" are sent as a number and a boolean; "00123" stays a string
+function parsePropertyValue(value: string): string | number | boolean {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+
+  const numericValue = Number(value);
+  if (value.trim() !== '' && String(numericValue) === value)
+    return numericValue;
+  return value;
+}
+
+// data-crow-prop-plan-name="pro" becomes { planName: 'pro' }
+function readDeclaredProperties(
+  element: HTMLElement
+): Record<string, string | number | boolean> {
+  const properties: Record<string, string | number | boolean> = {};
+  for (const [key, value] of Object.entries(element.dataset)) {
+    if (
+      value === undefined ||
+      !key.startsWith(PROPERTY_DATASET_PREFIX) ||
+      key.length === PROPERTY_DATASET_PREFIX.length
+    ) {
+      continue;
+    }
+
+    const propertyName = key.slice(PROPERTY_DATASET_PREFIX.length);
+    properties[propertyName[0].toLowerCase() + propertyName.slice(1)] =
+      parsePropertyValue(value);
+  }
+  return properties;
+}
+
+function findDeclaredElements(root: ParentNode): HTMLElement[] {
+  const elements = Array.from(
+    root.querySelectorAll<HTMLElement>(EVENT_SELECTOR)
+  );
+  if (root instanceof HTMLElement && root.matches(EVENT_SELECTOR)) {
+    elements.unshift(root);
+  }
+  return elements;
+}
+
+/**
+ * Tracks events declared in markup: data-crow-event names a custom event,
+ * data-crow-prop-* adds properties and data-crow-trigger picks click, submit,
+ * view or change. Click, submit and change are delegated from the document,
+ * so elements inserted later work too; view elements are found by a
+ * MutationObserver and reported the first time they are half visible. Like
+ * autocapture, nothing inside a data-crow-ignore subtree is tracked.
+ */
+export function createDeclarativeCollector(): Collector {
+  let ctx: CollectorContext | null = null;
+  let intersectionObserver: IntersectionObserver | null = null;
+  let mutationObserver: MutationObserver | null = null;
+  let observedElements = new WeakSet<HTMLElement>();
+
+  function trackDeclaredEvent(
+    element: HTMLElement,
+    trigger: DeclarativeTrigger
+  ): void {
+    const name = element.dataset.crowEvent;
+    if (!ctx || !name || element.closest(AUTOCAPTURE_IGNORE_SELECTOR)) return;
+
+    ctx.trackEvent('custom', {
+      ...readDeclaredProperties(element),
+      name,
+      trigger,
+      declarative: true,
+    });
+    ctx.debug('Declarative event tracked', { name, trigger });
+  }
+
+  function handleDelegatedEvent(event: Event): void {
+    if (
+      !(event.target instanceof Element) ||
+      event.target.closest(AUTOCAPTURE_IGNORE_SELECTOR)
+    ) {
+      return;
+    }
+
+    // The nearest declaration may be for another trigger, e.g. a viewed card
+    // wrapping a clickable button
+    let element = event.target.closest<HTMLElement>(EVENT_SELECTOR);
+    while (element) {
+      if (getTrigger(element) === event.type) {
+        trackDeclaredEvent(element, event.type as DeclarativeTrigger);
+        return;
+      }
+      element =
+        element.parentElement?.closest<HTMLElement>(EVENT_SELECTOR) ?? null;
+    }
+  }
+
+  function observeViewElements(root: ParentNode): void {
+    if (!intersectionObserver) return;
+
+    for (const element of findDeclaredElements(root)) {
+      if (getTrigger(element) !== 'view' || observedElements.has(element)) {
+        continue;
+      }
+      observedElements.add(element);
+      intersectionObserver.observe(element);
+    }
+  }
+
+  function handleIntersections(entries: IntersectionObserverEntry[]): void {
+    for (const entry of entries) {
+      if (!entry.isIntersecting) continue;
+
+      const element = entry.target as HTMLElement;
+      intersectionObserver?.unobserve(element);
+      trackDeclaredEvent(element, 'view');
+    }
+  }
+
+  function handleMutations(mutations: MutationRecord[]): void {
+    for (const mutation of mutations) {
+      if (mutation.type === 'attributes') {
+        observeViewElements(mutation.target as HTMLElement);
+        continue;
+      }
+      for (const node of mutation.addedNodes) {
+        if (node instanceof HTMLElement) observeViewElements(node);
+      }
+    }
+  }
+
+  function startViewTracking(): void {
+    if (typeof IntersectionObserver === 'undefined') return;
+
+    observedElements = new WeakSet();
+    intersectionObserver = new IntersectionObserver(handleIntersections, {
+      threshold: VIEW_THRESHOLD,
+    });
+    observeViewElements(document);
+
+    mutationObserver = new MutationObserver(handleMutations);
+    mutationObserver.observe(document.documentElement, {
+      childList: true,
+      subtree: true,
+      attributes: true,
+      attributeFilter: ['data-crow-event', 'data-crow-trigger'],
+    });
+  }
+
+  return {
+    name: 'declarative',
+
+    initialize(context: CollectorContext): void {
+      ctx = context;
+
+      // Capture phase, so handlers that stop propagation can't hide the event
+      for (const eventType of DELEGATED_TRIGGERS) {
+        document.addEventListener(eventType, handleDelegatedEvent, true);
+      }
+      startViewTracking();
+
+      ctx.debug('Declarative collector initialized');
+    },
+
+    destroy(): void {
+      for (const eventType of DELEGATED_TRIGGERS) {
+        document.removeEventListener(eventType, handleDelegatedEvent, true);
+      }
+      intersectionObserver?.disconnect();
+      intersectionObserver = null;
+      mutationObserver?.disconnect();
+      mutationObserver = null;
+      ctx = null;
+    },
+  };
+}
@@ -1,3 +1,4 @@
+import type { EventPayloadMap } from '../types';
 import type { Collector, CollectorContext } from './types';
 
 export interface AddToCartData {
@@ -6,7 +7,6 @@ export interface AddToCartData {
   quantity?: number;
   price?: number;
   currency?: string;
-  [key: string]: any;
 }
 
 export interface VariantSelectData {
@@ -15,7 +15,6 @@ export interface VariantSelectData {
   variantName?: string;
   variantValue?: string;
   price?: number;
-  [key: string]: any;
 }
 
 export interface ImageZoomData {
@@ -23,36 +22,180 @@ export interface ImageZoomData {
   imageUrl?: string;
   imageIndex?: number;
   zoomLevel?: number;
-  [key: string]: any;
 }
 
+// Amounts are in major units (19.99, not 1999) of an ISO 4217 currency
+export interface EcommerceItem {
+  productId: string;
+  variantId?: string;
+  name?: string;
+  category?: string;
+  brand?: string;
+  price?: number;
+  quantity?: number;
+  discount?: number;
+  coupon?: string;
+  // Position in the list the item was shown in, starting at 0
+  index?: number;
+}
+
+export interface ViewItemData {
+  productId: string;
+  variantId?: string;
+  name?: string;
+  category?: string;
+  price?: number;
+  currency?: string;
+}
+
+export interface ViewItemListData {
+  listId?: string;
+  listName?: string;
+  items: EcommerceItem[];
+}
+
+export interface SelectItemData {
+  productId: string;
+  name?: string;
+  listId?: string;
+  listName?: string;
+  index?: number;
+}
+
+export interface RemoveFromCartData {
+  productId: string;
+  variantId?: string;
+  quantity?: number;
+  price?: number;
+  currency?: string;
+}
+
+export interface ViewCartData {
+  items: EcommerceItem[];
+  value?: number;
+  currency?: string;
+}
+
+export interface BeginCheckoutData {
+  items: EcommerceItem[];
+  value?: number;
+  currency?: string;
+  coupon?: string;
+}
+
+export interface AddShippingInfoData {
+  shippingTier?: string;
+  items?: EcommerceItem[];
+  value?: number;
+  currency?: string;
+}
+
+export interface AddPaymentInfoData {
+  paymentType?: string;
+  items?: EcommerceItem[];
+  value?: number;
+  currency?: string;
+}
+
+export interface PurchaseData {
+  orderId: string;
+  // Total charged, including tax and shipping
+  revenue: number;
+  tax?: number;
+  shipping?: number;
+  currency?: string;
+  coupon?: string;
+  items: EcommerceItem[];
+}
+
+// Leave out items for a full refund of the order
+export interface RefundData {
+  orderId: string;
+  amount?: number;
+  currency?: string;
+  items?: EcommerceItem[];
+}
+
+export type EcommerceEventType =
+  | 'add_to_cart'
+  | 'variant_select'
+  | 'image_zoom'
+  | 'view_item'
+  | 'view_item_list'
+  | 'select_item'
+  | 'remove_from_cart'
+  | 'view_cart'
+  | 'begin_checkout'
+  | 'add_shipping_info'
+  | 'add_payment_info'
+  | 'purchase'
+  | 'refund';
+
 let collectorCtx: CollectorContext | null = null;
 
-export function trackAddToCart(data: AddToCartData): void {
+function trackEcommerceEvent<T extends EcommerceEventType>(
+  eventType: T,
+  data: EventPayloadMap[T],
+  debugMessage: string
+): void {
   if (!collectorCtx) {
     console.warn('[Crow] E-commerce collector not initialized');
     return;
   }
-  collectorCtx.trackEvent('add_to_cart', data);
-  collectorCtx.debug('Add to cart tracked', data);
+  collectorCtx.trackEvent(eventType, data);
+  collectorCtx.debug(debugMessage, data);
+}
+
+export function trackAddToCart(data: AddToCartData): void {
+  trackEcommerceEvent('add_to_cart', data, 'Add to cart tracked');
 }
 
 export function trackVariantSelect(data: VariantSelectData): void {
-  if (!collectorCtx) {
-    console.warn('[Crow] E-commerce collector not initialized');
-    return;
-  }
-  collectorCtx.trackEvent('variant_select', data);
-  collectorCtx.debug('Variant select tracked', data);
+  trackEcommerceEvent('variant_select', data, 'Variant select tracked');
 }
 
 export function trackImageZoom(data: ImageZoomData): void {
-  if (!collectorCtx) {
-    console.warn('[Crow] E-commerce collector not initialized');
-    return;
-  }
-  collectorCtx.trackEvent('image_zoom', data);
-  collectorCtx.debug('Image zoom tracked', data);
+  trackEcommerceEvent('image_zoom', data, 'Image zoom tracked');
+}
+
+export function trackViewItem(data: ViewItemData): void {
+  trackEcommerceEvent('view_item', data, 'Item view tracked');
+}
+
+export function trackViewItemList(data: ViewItemListData): void {
+  trackEcommerceEvent('view_item_list', data, 'Item list view tracked');
+}
+
+export function trackSelectItem(data: SelectItemData): void {
+  trackEcommerceEvent('select_item', data, 'Item select tracked');
+}
+
+export function trackRemoveFromCart(data: RemoveFromCartData): void {
+  trackEcommerceEvent('remove_from_cart', data, 'Remove from cart tracked');
+}
+
+export function trackViewCart(data: ViewCartData): void {
+  trackEcommerceEvent('view_cart', data, 'Cart view tracked');
+}
+
+export function trackBeginCheckout(data: BeginCheckoutData): void {
+  trackEcommerceEvent('begin_checkout', data, 'Checkout start tracked');
+}
+
+export function trackAddShippingInfo(data: AddShippingInfoData): void {
+  trackEcommerceEvent('add_shipping_info', data, 'Shipping info tracked');
+}
+
+export function trackAddPaymentInfo(data: AddPaymentInfoData): void {
+  trackEcommerceEvent('add_payment_info', data, 'Payment info tracked');
+}
+
+export function trackPurchase(data: PurchaseData): void {
+  trackEcommerceEvent('purchase', data, 'Purchase tracked');
+}
+
+export function trackRefund(data: RefundData): void {
+  trackEcommerceEvent('refund', data, 'Refund tracked');
 }
 
 export function createEcommerceCollector(): Collector {
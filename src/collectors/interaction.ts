@@ -1,4 +1,6 @@
+import type { ClickPayload } from '../types';
 import type { Collector, CollectorContext } from './types';
+import { AUTOCAPTURE_IGNORE_SELECTOR } from '../constants';
 
 const RAGE_CLICK_THRESHOLD = 3;
 const RAGE_CLICK_WINDOW_MS = 1000;
@@ -169,7 +171,7 @@ export function createInteractionCollector(): Collector {
   function buildClickEventData(
     event: MouseEvent,
     target: HTMLElement
-  ): Record<string, unknown> {
+  ): ClickPayload {
     const elementPath = getElementPath(target);
     const dataAttributes = getDataAttributes(target);
 
@@ -206,6 +208,8 @@ export function createInteractionCollector(): Collector {
     if (!ctx) return;
 
     const target = event.target as HTMLElement;
+    if (target.closest(AUTOCAPTURE_IGNORE_SELECTOR)) return;
+
     const clickEventData = buildClickEventData(event, target);
 
     ctx.trackEvent('click', clickEventData);
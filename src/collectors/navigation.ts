@@ -27,13 +27,15 @@ export function createNavigationCollector(): Collector {
 
     const utmParams = parseUtmParameters();
 
+    const from = ctx.sanitizeUrl(fromUrl);
+    const to = ctx.sanitizeUrl(toUrl);
     ctx.trackEvent('navigation', {
-      from: fromUrl,
-      to: toUrl,
+      from,
+      to,
       ...utmParams,
     });
 
-    ctx.debug('Navigation tracked', { from: fromUrl, to: toUrl });
+    ctx.debug('Navigation tracked', { from, to });
   }
 
   function handleUrlChange(): void {
@@ -73,7 +75,7 @@ export function createNavigationCollector(): Collector {
       const utmParams = parseUtmParameters();
       if (Object.keys(utmParams).length > 0) {
         ctx.trackEvent('navigation', {
-          to: window.location.href,
+          to: ctx.sanitizeUrl(window.location.href),
           initial: true,
           ...utmParams,
         });
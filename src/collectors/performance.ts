@@ -1,3 +1,4 @@
+import type { WebVitalRating } from '../types';
 import type { Collector, CollectorContext } from './types';
 
 const WEB_VITAL_TYPES = ['largest-contentful-paint', 'first-input', 'layout-shift', 'paint'] as const;
@@ -33,7 +34,7 @@ export function createPerformanceCollector(): Collector {
     ctx.debug('Web vital tracked', { name, value });
   }
 
-  function getRating(name: string, value: number): string {
+  function getRating(name: string, value: number): WebVitalRating {
     switch (name) {
       case 'LCP':
         return value <= 2500 ? 'good' : value <= 4000 ? 'needs-improvement' : 'poor';
@@ -1,43 +1,158 @@
+import type {
+  MaskingConfig,
+  PersistenceConfig,
+  ReplayBatchRequest,
+} from '../types';
+import type {
+  PersistedRecord,
+  RecordOwnership,
+} from '../utils/persistent-store';
 import type { Collector, CollectorContext } from './types';
+import { generateUniqueIdWithPrefix } from '../utils/id';
+import {
+  createPersistentStore,
+  selectOrphanedRecords,
+} from '../utils/persistent-store';
 
 const FLUSH_INTERVAL_MS = 10_000;
 const MAX_BUFFER_SIZE = 100;
 
-export function createReplayCollector(): Collector {
+type PendingReplayChunk = PersistedRecord<ReplayBatchRequest>;
+
+export function createReplayCollector(
+  persistenceConfig: PersistenceConfig,
+  maskingConfig: MaskingConfig,
+  ownership: RecordOwnership | null = null
+): Collector {
   let ctx: CollectorContext | null = null;
   let stopRecording: (() => void) | null = null;
+  let takeFullSnapshot: (() => void) | null = null;
   let eventBuffer: any[] = [];
+  let pendingChunks: PendingReplayChunk[] = [];
   let chunkIndex = 0;
   let flushTimer: number | null = null;
   let isFlushing = false;
+  let initializedAt = 0;
+  let isDiscarded = false;
+
+  const store = createPersistentStore<ReplayBatchRequest>(
+    'replay',
+    persistenceConfig
+  );
+
+  function sealBufferIntoChunk(sessionId: string): void {
+    if (eventBuffer.length === 0) return;
+
+    const chunk: PendingReplayChunk = {
+      id: generateUniqueIdWithPrefix('chunk'),
+      sessionId,
+      createdAt: Date.now(),
+      ownerId: ownership?.ownerId,
+      payload: {
+        sessionId,
+        chunkIndex,
+        events: eventBuffer,
+        timestamp: Date.now(),
+      },
+    };
+
+    // Each sealed chunk keeps its index, so retries never leave gaps
+    chunkIndex++;
+    eventBuffer = [];
+    pendingChunks.push(chunk);
+    store.saveRecords([chunk]);
+  }
+
+  async function sendPendingChunks(context: CollectorContext): Promise<void> {
+    while (pendingChunks.length > 0) {
+      const chunk = pendingChunks[0];
+
+      try {
+        await context.apiClient.sendReplayBatch(chunk.payload);
+      } catch (error) {
+        // Leave the chunk at the front; it is retried on the next flush
+        console.error('[Crow] Failed to send replay chunk:', error);
+        return;
+      }
+
+      pendingChunks.shift();
+      store.removeRecords([chunk.id]);
+      context.debug('Replay chunk sent', {
+        chunkIndex: chunk.payload.chunkIndex,
+        eventCount: chunk.payload.events.length,
+      });
+    }
+  }
+
+  function discardReplayData(): void {
+    eventBuffer = [];
+    store.removeRecords(pendingChunks.map(chunk => chunk.id));
+    pendingChunks = [];
+  }
+
+  // Also drops chunks earlier pages persisted that were not restored yet
+  async function purgePersistedChunks(): Promise<void> {
+    const persistedChunks = await store.loadRecords();
+    await store.removeRecords(persistedChunks.map(chunk => chunk.id));
+  }
 
   async function flushBuffer(): Promise<void> {
-    if (!ctx || eventBuffer.length === 0 || isFlushing) return;
+    if (!ctx || isFlushing) return;
+
+    const context = ctx;
+
+    if (context.apiClient.isReplayDisabled()) {
+      stopRecordingIfActive();
+      discardReplayData();
+      context.debug('Replay disabled by ingest service');
+      return;
+    }
+
+    sealBufferIntoChunk(context.sessionId);
+    // Keep chunks pending while the ingest endpoint is paused or backing off
+    if (!context.apiClient.canSendNow()) return;
 
     isFlushing = true;
-    const eventsToSend = [...eventBuffer];
-    eventBuffer = [];
-    const currentChunkIndex = chunkIndex;
 
     try {
-      await ctx.apiClient.sendReplayBatch({
-        sessionId: ctx.sessionId,
-        chunkIndex: currentChunkIndex,
-        events: eventsToSend,
-        timestamp: Date.now(),
-      });
-      // Only increment on success to avoid gaps in chunk indexes
-      chunkIndex++;
-      ctx.debug('Replay chunk sent', { chunkIndex: currentChunkIndex, eventCount: eventsToSend.length });
-    } catch (error) {
-      // Re-queue events at front of buffer - chunkIndex stays the same so retry uses same index
-      eventBuffer = [...eventsToSend, ...eventBuffer];
-      console.error('[Crow] Failed to send replay chunk:', error);
+      await sendPendingChunks(context);
     } finally {
       isFlushing = false;
     }
   }
 
+  async function restorePersistedChunks(): Promise<void> {
+    const persistedChunks = await store.loadRecords();
+    if (isDiscarded) return;
+
+    const knownIds = new Set(pendingChunks.map(chunk => chunk.id));
+    const restoredChunks = selectOrphanedRecords(
+      persistedChunks,
+      ownership,
+      initializedAt
+    )
+      .filter(chunk => !knownIds.has(chunk.id))
+      .map(chunk => ({ ...chunk, ownerId: ownership?.ownerId }));
+
+    if (restoredChunks.length === 0) return;
+
+    pendingChunks = [...restoredChunks, ...pendingChunks];
+    // Claimed, so pages opened while these are sent leave them alone
+    if (ownership) store.saveRecords(restoredChunks);
+    flushBuffer();
+  }
+
+  function handleOnline(): void {
+    flushBuffer();
+  }
+
+  function stopRecordingIfActive(): void {
+    if (!stopRecording) return;
+
+    stopRecording();
+    stopRecording = null;
+  }
+
   function startFlushTimer(): void {
     if (flushTimer !== null) return;
 
@@ -60,11 +175,21 @@ export function createReplayCollector(): Collector {
       ctx = context;
       eventBuffer = [];
       chunkIndex = 0;
+      initializedAt = Date.now();
+
+      window.addEventListener('online', handleOnline);
+      restorePersistedChunks();
 
       import('rrweb').then(({ record }) => {
+        if (!ctx || ctx.apiClient.isReplayDisabled()) return;
+
+        takeFullSnapshot = () => record.takeFullSnapshot();
+
         stopRecording = record({
-          maskAllInputs: true,
+          maskAllInputs: maskingConfig.maskAllInputs,
+          maskTextSelector: maskingConfig.maskTextSelector,
           blockClass: 'crow-block',
+          blockSelector: maskingConfig.blockSelector,
           inlineImages: true,
           emit(event) {
             eventBuffer.push(event);
@@ -84,13 +209,29 @@ export function createReplayCollector(): Collector {
       ctx.debug('Replay collector initialized');
     },
 
+    onSessionChange(previousSessionId: string): void {
+      // Buffered events belong to the ended session; the new one replays from a fresh snapshot
+      sealBufferIntoChunk(previousSessionId);
+      chunkIndex = 0;
+      if (stopRecording) takeFullSnapshot?.();
+      flushBuffer();
+    },
+
+    discard(): void {
+      isDiscarded = true;
+      stopRecordingIfActive();
+      discardReplayData();
+      purgePersistedChunks().catch((error) => {
+        console.error('[Crow] Failed to discard replay chunks:', error);
+      });
+      ctx?.debug('Replay data discarded');
+    },
+
     destroy(): void {
       stopFlushTimer();
+      window.removeEventListener('online', handleOnline);
 
-      if (stopRecording) {
-        stopRecording();
-        stopRecording = null;
-      }
+      stopRecordingIfActive();
 
       flushBuffer();
 
@@ -1,16 +1,34 @@
-import type { CaptureConfig, EventType } from '../types';
+import type {
+  CaptureConfig,
+  ConsentCategory,
+  EventPayloadMap,
+  EventType,
+} from '../types';
 import type { ApiClient } from '../api/client';
 
 export interface CollectorContext {
-  trackEvent: (eventType: EventType, data?: Record<string, any>) => void;
+  trackEvent: <T extends EventType>(
+    eventType: T,
+    data?: EventPayloadMap[T]
+  ) => void;
   config: CaptureConfig;
-  sessionId: string;
+  // Live value: changes when the SDK rolls over to a new session
+  readonly sessionId: string;
   apiClient: ApiClient;
+  /** Applies the SDK's query and hash filtering to a URL before it is tracked */
+  sanitizeUrl: (url: string) => string;
   debug: (message: string, data?: any) => void;
 }
 
 export interface Collector {
+  /** Must be unique; `removeCollector` looks collectors up by it */
   name: string;
+  /** Consent the collector waits for, 'analytics' when unset; it is destroyed again if consent is withdrawn */
+  consentCategory?: ConsentCategory;
   initialize: (ctx: CollectorContext) => void;
   destroy: () => void;
+  /** Called just before `destroy` when consent is withdrawn: drop buffered data instead of sending it */
+  discard?: () => void;
+  /** Called after the SDK rolls over to a new session; `ctx.sessionId` already holds the new ID */
+  onSessionChange?: (previousSessionId: string) => void;
 }
@@ -1,3 +1,10 @@
 import { getEnvironmentVariable } from './utils/environment';
 
 export const NEXT_BASE_URL = 'https://dev.internal.ingest-worker.crowai.dev';
+
+export const SDK_NAME = '@b3-crow/website-hook-sdk';
+// Keep in sync with package.json on release
+export const SDK_VERSION = '0.0.39';
+export const EVENT_SCHEMA_VERSION = 1;
+// Subtrees the page has opted out of autocapture and declarative tracking
+export const AUTOCAPTURE_IGNORE_SELECTOR = '[data-crow-ignore]';
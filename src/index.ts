@@ -3,8 +3,37 @@ import { createCrowSDK } from './sdk';
 import type { CrowConfig } from './types';
 
 export type { CrowSDK };
+export {
+  createBeaconTransport,
+  createHttpTransport,
+  createMemoryTransport,
+  createPostMessageTransport,
+} from './api/transports';
+export type {
+  BeaconTransportOptions,
+  HttpTransportOptions,
+  MemoryTransport,
+  PostMessageEnvelope,
+  PostMessageTransportOptions,
+  RecordedRequest,
+} from './api/transports';
 export type * from './types';
-export type { AddToCartData, VariantSelectData, ImageZoomData } from './collectors/ecommerce';
+export type {
+  AddPaymentInfoData,
+  AddShippingInfoData,
+  AddToCartData,
+  BeginCheckoutData,
+  EcommerceItem,
+  ImageZoomData,
+  PurchaseData,
+  RefundData,
+  RemoveFromCartData,
+  SelectItemData,
+  VariantSelectData,
+  ViewCartData,
+  ViewItemData,
+  ViewItemListData,
+} from './collectors/ecommerce';
 export type { Collector, CollectorContext } from './collectors/types';
 export { createCrowSDK };
 
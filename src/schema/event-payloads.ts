@@ -0,0 +1,681 @@
+// Generated by scripts/generate-event-schema.mjs; do not edit.
+import type { JsonSchema } from '../utils/payload-validator';
+
+export const EVENT_PAYLOAD_SCHEMAS: Record<string, JsonSchema> = {
+  pageview: {
+    type: 'object',
+    properties: {
+      title: { type: 'string' },
+      path: { type: 'string' },
+      autoCapture: { type: 'boolean' },
+    },
+    additionalProperties: false,
+  },
+  click: {
+    type: 'object',
+    properties: {
+      tagName: { type: 'string' },
+      id: { type: 'string' },
+      className: { type: 'string' },
+      text: { type: 'string' },
+      href: { type: 'string' },
+      x: { type: 'number' },
+      y: { type: 'number' },
+      pageX: { type: 'number' },
+      pageY: { type: 'number' },
+      elementPath: { type: 'string' },
+      dataAttributes: {
+        type: 'object',
+        properties: {},
+        additionalProperties: { type: 'string' },
+      },
+      accessibleName: { type: 'string' },
+      visibleText: { type: 'string' },
+      role: { type: 'string' },
+      descriptor: { type: 'string' },
+      nearestHeading: { type: 'string' },
+      ariaLabel: { type: 'string' },
+      placeholder: { type: 'string' },
+      title: { type: 'string' },
+      alt: { type: 'string' },
+      scrollX: { type: 'number' },
+      scrollY: { type: 'number' },
+      viewportWidth: { type: 'number' },
+      viewportHeight: { type: 'number' },
+      autoCapture: { type: 'boolean' },
+    },
+    additionalProperties: false,
+  },
+  form: { type: 'object', properties: {}, additionalProperties: {} },
+  custom: { type: 'object', properties: {}, additionalProperties: {} },
+  error: {
+    type: 'object',
+    properties: {
+      message: { type: 'string' },
+      filename: { type: 'string' },
+      lineno: { type: 'number' },
+      colno: { type: 'number' },
+      stack: { type: 'string' },
+      type: { type: 'string', enum: ['uncaught_error', 'unhandled_rejection'] },
+      autoCapture: { type: 'boolean' },
+      occurrences: { type: 'number' },
+      isRepeat: { type: 'boolean' },
+    },
+    required: ['message'],
+    additionalProperties: false,
+  },
+  navigation: {
+    type: 'object',
+    properties: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      initial: { type: 'boolean' },
+      utm_source: { type: 'string' },
+      utm_medium: { type: 'string' },
+      utm_campaign: { type: 'string' },
+      utm_term: { type: 'string' },
+      utm_content: { type: 'string' },
+    },
+    required: ['to'],
+    additionalProperties: false,
+  },
+  scroll: {
+    type: 'object',
+    properties: {
+      depth: { type: 'number' },
+      actualDepth: { type: 'number' },
+      timestamp: { type: 'number' },
+    },
+    required: ['depth', 'actualDepth', 'timestamp'],
+    additionalProperties: false,
+  },
+  rage_click: {
+    type: 'object',
+    properties: {
+      x: { type: 'number' },
+      y: { type: 'number' },
+      elementPath: { type: 'string' },
+      tagName: { type: 'string' },
+      clickCount: { type: 'number' },
+    },
+    required: ['x', 'y', 'tagName', 'clickCount'],
+    additionalProperties: false,
+  },
+  add_to_cart: {
+    type: 'object',
+    properties: {
+      productId: { type: 'string' },
+      variantId: { type: 'string' },
+      quantity: { type: 'number' },
+      price: { type: 'number' },
+      currency: { type: 'string' },
+    },
+    required: ['productId'],
+    additionalProperties: false,
+  },
+  variant_select: {
+    type: 'object',
+    properties: {
+      productId: { type: 'string' },
+      variantId: { type: 'string' },
+      variantName: { type: 'string' },
+      variantValue: { type: 'string' },
+      price: { type: 'number' },
+    },
+    required: ['productId', 'variantId'],
+    additionalProperties: false,
+  },
+  image_zoom: {
+    type: 'object',
+    properties: {
+      productId: { type: 'string' },
+      imageUrl: { type: 'string' },
+      imageIndex: { type: 'number' },
+      zoomLevel: { type: 'number' },
+    },
+    required: ['productId'],
+    additionalProperties: false,
+  },
+  view_item: {
+    type: 'object',
+    properties: {
+      productId: { type: 'string' },
+      variantId: { type: 'string' },
+      name: { type: 'string' },
+      category: { type: 'string' },
+      price: { type: 'number' },
+      currency: { type: 'string' },
+    },
+    required: ['productId'],
+    additionalProperties: false,
+  },
+  view_item_list: {
+    type: 'object',
+    properties: {
+      listId: { type: 'string' },
+      listName: { type: 'string' },
+      items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            productId: { type: 'string' },
+            variantId: { type: 'string' },
+            name: { type: 'string' },
+            category: { type: 'string' },
+            brand: { type: 'string' },
+            price: { type: 'number' },
+            quantity: { type: 'number' },
+            discount: { type: 'number' },
+            coupon: { type: 'string' },
+            index: { type: 'number' },
+          },
+          required: ['productId'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['items'],
+    additionalProperties: false,
+  },
+  select_item: {
+    type: 'object',
+    properties: {
+      productId: { type: 'string' },
+      name: { type: 'string' },
+      listId: { type: 'string' },
+      listName: { type: 'string' },
+      index: { type: 'number' },
+    },
+    required: ['productId'],
+    additionalProperties: false,
+  },
+  remove_from_cart: {
+    type: 'object',
+    properties: {
+      productId: { type: 'string' },
+      variantId: { type: 'string' },
+      quantity: { type: 'number' },
+      price: { type: 'number' },
+      currency: { type: 'string' },
+    },
+    required: ['productId'],
+    additionalProperties: false,
+  },
+  view_cart: {
+    type: 'object',
+    properties: {
+      items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            productId: { type: 'string' },
+            variantId: { type: 'string' },
+            name: { type: 'string' },
+            category: { type: 'string' },
+            brand: { type: 'string' },
+            price: { type: 'number' },
+            quantity: { type: 'number' },
+            discount: { type: 'number' },
+            coupon: { type: 'string' },
+            index: { type: 'number' },
+          },
+          required: ['productId'],
+          additionalProperties: false,
+        },
+      },
+      value: { type: 'number' },
+      currency: { type: 'string' },
+    },
+    required: ['items'],
+    additionalProperties: false,
+  },
+  begin_checkout: {
+    type: 'object',
+    properties: {
+      items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            productId: { type: 'string' },
+            variantId: { type: 'string' },
+            name: { type: 'string' },
+            category: { type: 'string' },
+            brand: { type: 'string' },
+            price: { type: 'number' },
+            quantity: { type: 'number' },
+            discount: { type: 'number' },
+            coupon: { type: 'string' },
+            index: { type: 'number' },
+          },
+          required: ['productId'],
+          additionalProperties: false,
+        },
+      },
+      value: { type: 'number' },
+      currency: { type: 'string' },
+      coupon: { type: 'string' },
+    },
+    required: ['items'],
+    additionalProperties: false,
+  },
+  add_shipping_info: {
+    type: 'object',
+    properties: {
+      shippingTier: { type: 'string' },
+      items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            productId: { type: 'string' },
+            variantId: { type: 'string' },
+            name: { type: 'string' },
+            category: { type: 'string' },
+            brand: { type: 'string' },
+            price: { type: 'number' },
+            quantity: { type: 'number' },
+            discount: { type: 'number' },
+            coupon: { type: 'string' },
+            index: { type: 'number' },
+          },
+          required: ['productId'],
+          additionalProperties: false,
+        },
+      },
+      value: { type: 'number' },
+      currency: { type: 'string' },
+    },
+    additionalProperties: false,
+  },
+  add_payment_info: {
+    type: 'object',
+    properties: {
+      paymentType: { type: 'string' },
+      items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            productId: { type: 'string' },
+            variantId: { type: 'string' },
+            name: { type: 'string' },
+            category: { type: 'string' },
+            brand: { type: 'string' },
+            price: { type: 'number' },
+            quantity: { type: 'number' },
+            discount: { type: 'number' },
+            coupon: { type: 'string' },
+            index: { type: 'number' },
+          },
+          required: ['productId'],
+          additionalProperties: false,
+        },
+      },
+      value: { type: 'number' },
+      currency: { type: 'string' },
+    },
+    additionalProperties: false,
+  },
+  purchase: {
+    type: 'object',
+    properties: {
+      orderId: { type: 'string' },
+      revenue: { type: 'number' },
+      tax: { type: 'number' },
+      shipping: { type: 'number' },
+      currency: { type: 'string' },
+      coupon: { type: 'string' },
+      items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            productId: { type: 'string' },
+            variantId: { type: 'string' },
+            name: { type: 'string' },
+            category: { type: 'string' },
+            brand: { type: 'string' },
+            price: { type: 'number' },
+            quantity: { type: 'number' },
+            discount: { type: 'number' },
+            coupon: { type: 'string' },
+            index: { type: 'number' },
+          },
+          required: ['productId'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['orderId', 'revenue', 'items'],
+    additionalProperties: false,
+  },
+  refund: {
+    type: 'object',
+    properties: {
+      orderId: { type: 'string' },
+      amount: { type: 'number' },
+      currency: { type: 'string' },
+      items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            productId: { type: 'string' },
+            variantId: { type: 'string' },
+            name: { type: 'string' },
+            category: { type: 'string' },
+            brand: { type: 'string' },
+            price: { type: 'number' },
+            quantity: { type: 'number' },
+            discount: { type: 'number' },
+            coupon: { type: 'string' },
+            index: { type: 'number' },
+          },
+          required: ['productId'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['orderId'],
+    additionalProperties: false,
+  },
+  performance: {
+    anyOf: [
+      {
+        type: 'object',
+        properties: {
+          subtype: { const: 'long_task' },
+          duration: { type: 'number' },
+          startTime: { type: 'number' },
+        },
+        required: ['subtype', 'duration', 'startTime'],
+        additionalProperties: false,
+      },
+      {
+        type: 'object',
+        properties: {
+          subtype: { const: 'page_load' },
+          dns: { type: 'number' },
+          tcp: { type: 'number' },
+          ssl: { type: 'number' },
+          ttfb: { type: 'number' },
+          download: { type: 'number' },
+          domInteractive: { type: 'number' },
+          domComplete: { type: 'number' },
+          loadEvent: { type: 'number' },
+          totalLoad: { type: 'number' },
+        },
+        required: [
+          'subtype',
+          'dns',
+          'tcp',
+          'ssl',
+          'ttfb',
+          'download',
+          'domInteractive',
+          'domComplete',
+          'loadEvent',
+          'totalLoad',
+        ],
+        additionalProperties: false,
+      },
+    ],
+  },
+  web_vital: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      value: { type: 'number' },
+      rating: {
+        type: 'string',
+        enum: ['good', 'needs-improvement', 'poor', 'unknown'],
+      },
+      entryType: { type: 'string' },
+    },
+    required: ['name', 'value', 'rating'],
+    additionalProperties: false,
+  },
+  api_error: {
+    type: 'object',
+    properties: {
+      url: { type: 'string' },
+      method: { type: 'string' },
+      status: { type: 'number' },
+      statusText: { type: 'string' },
+      error: { type: 'string' },
+      duration: { type: 'number' },
+      occurrences: { type: 'number' },
+      isRepeat: { type: 'boolean' },
+    },
+    required: ['url', 'method', 'status', 'duration'],
+    additionalProperties: false,
+  },
+  clipboard_copy: {
+    type: 'object',
+    properties: { action: { type: 'string', enum: ['copy', 'paste'] } },
+    required: ['action'],
+    additionalProperties: false,
+  },
+  clipboard_paste: {
+    type: 'object',
+    properties: { action: { type: 'string', enum: ['copy', 'paste'] } },
+    required: ['action'],
+    additionalProperties: false,
+  },
+  visibility_change: {
+    type: 'object',
+    properties: {
+      hidden: { type: 'boolean' },
+      visibilityState: { type: 'string', enum: ['hidden', 'visible'] },
+    },
+    required: ['hidden', 'visibilityState'],
+    additionalProperties: false,
+  },
+  media_play: {
+    type: 'object',
+    properties: {
+      action: { type: 'string', enum: ['play', 'pause'] },
+      mediaType: { type: 'string' },
+      currentTime: { type: 'number' },
+      duration: { type: 'number' },
+      src: { type: 'string' },
+    },
+    required: ['action', 'mediaType', 'currentTime', 'duration'],
+    additionalProperties: false,
+  },
+  media_pause: {
+    type: 'object',
+    properties: {
+      action: { type: 'string', enum: ['play', 'pause'] },
+      mediaType: { type: 'string' },
+      currentTime: { type: 'number' },
+      duration: { type: 'number' },
+      src: { type: 'string' },
+    },
+    required: ['action', 'mediaType', 'currentTime', 'duration'],
+    additionalProperties: false,
+  },
+  download: {
+    type: 'object',
+    properties: {
+      downloadUrl: { type: 'string' },
+      fileName: { type: 'string' },
+    },
+    required: ['downloadUrl'],
+    additionalProperties: false,
+  },
+  form_focus: {
+    type: 'object',
+    properties: {
+      tagName: { type: 'string' },
+      id: { type: 'string' },
+      name: { type: 'string' },
+      type: { type: 'string' },
+      className: { type: 'string' },
+    },
+    required: ['tagName'],
+    additionalProperties: false,
+  },
+  form_blur: {
+    type: 'object',
+    properties: {
+      tagName: { type: 'string' },
+      id: { type: 'string' },
+      name: { type: 'string' },
+      type: { type: 'string' },
+      className: { type: 'string' },
+    },
+    required: ['tagName'],
+    additionalProperties: false,
+  },
+  form_input: {
+    type: 'object',
+    properties: {
+      valueLength: { type: 'number' },
+      tagName: { type: 'string' },
+      id: { type: 'string' },
+      name: { type: 'string' },
+      type: { type: 'string' },
+      className: { type: 'string' },
+    },
+    required: ['valueLength', 'tagName'],
+    additionalProperties: false,
+  },
+  form_validation: {
+    type: 'object',
+    properties: {
+      valid: { type: 'boolean' },
+      validationMessage: { type: 'string' },
+      tagName: { type: 'string' },
+      id: { type: 'string' },
+      name: { type: 'string' },
+      type: { type: 'string' },
+      className: { type: 'string' },
+    },
+    required: ['valid', 'tagName'],
+    additionalProperties: false,
+  },
+  mousemove: {
+    type: 'object',
+    properties: {
+      x: { type: 'number' },
+      y: { type: 'number' },
+      pageX: { type: 'number' },
+      pageY: { type: 'number' },
+    },
+    required: ['x', 'y', 'pageX', 'pageY'],
+    additionalProperties: false,
+  },
+  network_request: {
+    type: 'object',
+    properties: {
+      method: { type: 'string' },
+      requestUrl: { type: 'string' },
+      status: { type: 'number' },
+      duration: { type: 'number' },
+    },
+    required: ['method', 'requestUrl', 'status', 'duration'],
+    additionalProperties: false,
+  },
+  performance_metric: {
+    type: 'object',
+    properties: {
+      metricType: {
+        type: 'string',
+        enum: ['navigation_timing', 'resource_timing', 'core_web_vitals'],
+      },
+    },
+    required: ['metricType'],
+    additionalProperties: {},
+  },
+  rrweb_snapshot: { type: 'object', properties: {}, additionalProperties: {} },
+  rrweb_incremental: {
+    type: 'object',
+    properties: {},
+    additionalProperties: {},
+  },
+  identify: {
+    type: 'object',
+    properties: {
+      traits: { type: 'object', properties: {}, additionalProperties: {} },
+    },
+    required: ['traits'],
+    additionalProperties: false,
+  },
+  alias: {
+    type: 'object',
+    properties: { userId: { type: 'string' }, previousId: { type: 'string' } },
+    required: ['userId', 'previousId'],
+    additionalProperties: false,
+  },
+  events_suppressed: {
+    type: 'object',
+    properties: {
+      counts: {
+        type: 'object',
+        properties: {
+          pageview: { type: 'number' },
+          click: { type: 'number' },
+          form: { type: 'number' },
+          custom: { type: 'number' },
+          error: { type: 'number' },
+          navigation: { type: 'number' },
+          scroll: { type: 'number' },
+          rage_click: { type: 'number' },
+          add_to_cart: { type: 'number' },
+          variant_select: { type: 'number' },
+          image_zoom: { type: 'number' },
+          view_item: { type: 'number' },
+          view_item_list: { type: 'number' },
+          select_item: { type: 'number' },
+          remove_from_cart: { type: 'number' },
+          view_cart: { type: 'number' },
+          begin_checkout: { type: 'number' },
+          add_shipping_info: { type: 'number' },
+          add_payment_info: { type: 'number' },
+          purchase: { type: 'number' },
+          refund: { type: 'number' },
+          performance: { type: 'number' },
+          web_vital: { type: 'number' },
+          api_error: { type: 'number' },
+          clipboard_copy: { type: 'number' },
+          clipboard_paste: { type: 'number' },
+          visibility_change: { type: 'number' },
+          media_play: { type: 'number' },
+          media_pause: { type: 'number' },
+          download: { type: 'number' },
+          form_focus: { type: 'number' },
+          form_blur: { type: 'number' },
+          form_input: { type: 'number' },
+          form_validation: { type: 'number' },
+          mousemove: { type: 'number' },
+          network_request: { type: 'number' },
+          performance_metric: { type: 'number' },
+          rrweb_snapshot: { type: 'number' },
+          rrweb_incremental: { type: 'number' },
+          identify: { type: 'number' },
+          alias: { type: 'number' },
+          events_suppressed: { type: 'number' },
+          timed_event: { type: 'number' },
+        },
+        additionalProperties: false,
+      },
+      totalSuppressed: { type: 'number' },
+    },
+    required: ['counts', 'totalSuppressed'],
+    additionalProperties: false,
+  },
+  timed_event: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      wallDurationMs: { type: 'number' },
+      activeDurationMs: { type: 'number' },
+    },
+    required: ['name', 'wallDurationMs', 'activeDurationMs'],
+    additionalProperties: {},
+  },
+};
@@ -1,38 +1,146 @@
+import type { ApiClient } from './api/client';
+import type {
+  AddPaymentInfoData,
+  AddShippingInfoData,
+  AddToCartData,
+  BeginCheckoutData,
+  ImageZoomData,
+  PurchaseData,
+  RefundData,
+  RemoveFromCartData,
+  SelectItemData,
+  VariantSelectData,
+  ViewCartData,
+  ViewItemData,
+  ViewItemListData,
+} from './collectors/ecommerce';
+import type { Collector, CollectorContext } from './collectors/types';
 import type {
   BaseEvent,
+  BatchingConfig,
+  BatchResponse,
   CaptureConfig,
+  CircuitBreakerConfig,
+  ClickPayload,
+  CompressionConfig,
+  ConsentCategory,
+  ConsentConfig,
+  ConsentState,
+  ConsentUpdate,
+  CrossTabConfig,
   CrowConfig,
+  DeadLetterEntry,
+  DeliveryStats,
+  EventPayloadMap,
   EventType,
   ExitContext,
   ExitTriggerType,
+  MaskingConfig,
+  Middleware,
+  MiddlewareConfig,
+  MiddlewarePayloads,
+  MiddlewareStage,
+  PageContext,
+  PageViewPayload,
+  PersistenceConfig,
+  PrivacyContext,
+  PrivacyMode,
+  PrivacySignalConfig,
+  RateLimitConfig,
+  RemoteConfig,
+  RemoteConfigSettings,
+  SamplingConfig,
+  SamplingDecision,
   ScreenSize,
+  ScrubbingConfig,
+  SessionConfig,
   SessionContext,
+  SessionEndRequest,
+  SuperProperties,
+  TimedEventHandle,
+  TransportStats,
+  UrlProcessingConfig,
+  UserTraits,
 } from './types';
-import type { ApiClient } from './api/client';
+import type { ClockSync } from './utils/clock';
+import type { ConsentManager } from './utils/consent';
+import type { ErrorGrouper } from './utils/error-grouper';
+import type { EventTimerRegistry } from './utils/event-timers';
+import type { SessionCounters, SessionStorageScope } from './utils/id';
+import type { IdentityStore } from './utils/identity';
+import type { MiddlewarePipeline } from './utils/middleware';
+import type { PageContextStore } from './utils/page-context';
+import type { RecordOwnership } from './utils/persistent-store';
 import type { EventQueue } from './utils/queue';
-import type { Collector, CollectorContext } from './collectors/types';
+import type { RateLimiter, SuppressedCounts } from './utils/rate-limiter';
+import type { Redaction, Scrubber } from './utils/scrubber';
 import type {
-  AddToCartData,
-  ImageZoomData,
-  VariantSelectData,
-} from './collectors/ecommerce';
+  SessionManager,
+  SessionStartOrigin,
+} from './utils/session-manager';
+import type { SuperPropertyStore } from './utils/super-properties';
+import type { TabCoordinator } from './utils/tab-coordinator';
+import type { UrlProcessor } from './utils/url-processor';
 import { createApiClient } from './api/client';
-import { extendCurrentSessionExpiry, getOrCreateSessionId } from './utils/id';
-import { createEventQueue } from './utils/queue';
-import { isBrowserEnvironment } from './utils/environment';
-import { NEXT_BASE_URL } from './constants';
-import { createNavigationCollector } from './collectors/navigation';
-import { createEngagementCollector } from './collectors/engagement';
-import { createInteractionCollector } from './collectors/interaction';
+import { DEFAULT_COMPRESSION_CONFIG } from './api/compression';
+import { createHttpTransport } from './api/transports';
+import { createDeclarativeCollector } from './collectors/declarative';
 import {
   createEcommerceCollector,
+  trackAddPaymentInfo as ecommerceTrackAddPaymentInfo,
+  trackAddShippingInfo as ecommerceTrackAddShippingInfo,
   trackAddToCart as ecommerceTrackAddToCart,
-  trackVariantSelect as ecommerceTrackVariantSelect,
+  trackBeginCheckout as ecommerceTrackBeginCheckout,
   trackImageZoom as ecommerceTrackImageZoom,
+  trackPurchase as ecommerceTrackPurchase,
+  trackRefund as ecommerceTrackRefund,
+  trackRemoveFromCart as ecommerceTrackRemoveFromCart,
+  trackSelectItem as ecommerceTrackSelectItem,
+  trackVariantSelect as ecommerceTrackVariantSelect,
+  trackViewCart as ecommerceTrackViewCart,
+  trackViewItem as ecommerceTrackViewItem,
+  trackViewItemList as ecommerceTrackViewItemList,
 } from './collectors/ecommerce';
-import { createPerformanceCollector } from './collectors/performance';
+import { createEngagementCollector } from './collectors/engagement';
 import { createErrorCollector } from './collectors/error';
+import { createInteractionCollector } from './collectors/interaction';
+import { createNavigationCollector } from './collectors/navigation';
+import { createPerformanceCollector } from './collectors/performance';
 import { createReplayCollector } from './collectors/replay';
+import { EVENT_SCHEMA_VERSION, NEXT_BASE_URL } from './constants';
+import { createClockSync } from './utils/clock';
+import { connectConsentPlatform } from './utils/cmp';
+import { createConsentManager } from './utils/consent';
+import { isBrowserEnvironment } from './utils/environment';
+import { createErrorGrouper } from './utils/error-grouper';
+import { createEventTimerRegistry } from './utils/event-timers';
+import {
+  claimSessionEnd,
+  generateEventId,
+  getNextSessionSequenceNumber,
+  incrementSessionCounter,
+  readSessionCounters,
+  releaseSessionEndClaim,
+} from './utils/id';
+import { createIdentityStore } from './utils/identity';
+import { createMiddlewarePipeline, whenSettled } from './utils/middleware';
+import { createPageContextStore } from './utils/page-context';
+import { createPersistentStore } from './utils/persistent-store';
+import { resolvePrivacyContext } from './utils/privacy-signals';
+import { createEventQueue } from './utils/queue';
+import { createRateLimiter } from './utils/rate-limiter';
+import {
+  compileUrlPatterns,
+  loadRemoteConfig,
+  matchesAnyUrlPattern,
+} from './utils/remote-config';
+import { isEventSampledIn, isSessionSampledIn } from './utils/sampling';
+import { createScrubber } from './utils/scrubber';
+import { createSessionManager } from './utils/session-manager';
+import { setStorageAccessAllowed } from './utils/storage-access';
+import { createSuperPropertyStore } from './utils/super-properties';
+import { createTabCoordinator } from './utils/tab-coordinator';
+import { createUrlProcessor } from './utils/url-processor';
 
 const DEFAULT_CAPTURE_CONFIG: CaptureConfig = {
   pageViews: true,
@@ -41,28 +149,157 @@ const DEFAULT_CAPTURE_CONFIG: CaptureConfig = {
   navigation: true,
   engagement: true,
   interactions: true,
+  declarativeEvents: true,
   performance: true,
   replay: true,
   sendAnalyticsEvents: false,
 };
 
-const DEFAULT_BATCHING_CONFIG = {
+const DEFAULT_BATCHING_CONFIG: BatchingConfig = {
   enabled: true,
   maxBatchSize: 10,
   flushInterval: 5000,
-} as const;
+};
+
+const DEFAULT_SAMPLING_CONFIG: SamplingConfig = {
+  sessionRate: 1,
+  replayRate: 1,
+  performanceRate: 1,
+  eventTypeRates: {},
+};
+
+const DEFAULT_MASKING_CONFIG: MaskingConfig = {
+  maskAllInputs: true,
+};
+
+const DEFAULT_SESSION_CONFIG: SessionConfig = {
+  inactivityTimeoutMs: 30 * 60 * 1000,
+  rolloverAtMidnight: true,
+  rolloverOnCampaignChange: true,
+};
+
+const DEFAULT_CROSS_TAB_CONFIG: CrossTabConfig = {
+  enabled: true,
+  leaderOnlyFlush: false,
+};
+
+const DEFAULT_CONSENT_CONFIG: ConsentConfig = {
+  defaults: {},
+  whilePending: 'buffer',
+  maxPendingEvents: 100,
+  platform: 'auto',
+};
+
+const DEFAULT_PRIVACY_SIGNAL_CONFIG: PrivacySignalConfig = {
+  policy: 'anonymous',
+  honorGlobalPrivacyControl: true,
+  honorDoNotTrack: true,
+};
+
+const DEFAULT_SCRUBBING_CONFIG: ScrubbingConfig = {
+  enabled: true,
+  detectors: ['jwt', 'bearer', 'email', 'card', 'phone'],
+  customPatterns: [],
+  denylistKeys: [
+    'password',
+    'passwd',
+    'secret',
+    'token',
+    'apikey',
+    'authorization',
+    'cookie',
+    'creditcard',
+    'cardnumber',
+    'cvv',
+    'ssn',
+  ],
+};
+
+const DEFAULT_URL_PROCESSING_CONFIG: UrlProcessingConfig = {
+  queryAllowlist: null,
+  queryDenylist: [
+    'token',
+    'access_token',
+    'id_token',
+    'refresh_token',
+    'reset_token',
+    'code',
+    'state',
+    'session',
+    'sessionid',
+    'sid',
+    'password',
+    'email',
+    'key',
+    'api_key',
+    'signature',
+    'sig',
+    'auth',
+  ],
+  hash: 'route_only',
+  routeTemplates: [],
+  inferRouteTemplates: true,
+};
+
+const DEFAULT_REMOTE_CONFIG_SETTINGS: RemoteConfigSettings = {
+  enabled: true,
+  timeoutMs: 2000,
+};
+
+const DEFAULT_PERSISTENCE_CONFIG: PersistenceConfig = {
+  enabled: true,
+  maxRecords: 1000,
+  ttlMs: 24 * 60 * 60 * 1000,
+};
+
+const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 3,
+  baseBackoffMs: 5000,
+  maxBackoffMs: 5 * 60 * 1000,
+};
+
+const DEFAULT_RATE_LIMIT_CONFIG: RateLimitConfig = {
+  enabled: true,
+  global: { capacity: 100, refillPerSecond: 10 },
+  perEventType: { capacity: 50, refillPerSecond: 5 },
+  eventTypeLimits: {
+    error: { capacity: 10, refillPerSecond: 1 },
+    api_error: { capacity: 10, refillPerSecond: 1 },
+  },
+  maxEventsPerSession: 10000,
+  errorGroupingWindowMs: 5000,
+  suppressionReportIntervalMs: 10000,
+};
 
 type InternalConfig = {
   apiEndpoint: string;
+  projectId?: string;
   capture: CaptureConfig;
-  batching: {
-    enabled: boolean;
-    maxBatchSize: number;
-    flushInterval: number;
-  };
+  batching: BatchingConfig;
+  sampling: SamplingConfig;
+  rateLimits: RateLimitConfig;
+  masking: MaskingConfig;
+  blockedUrlPatterns: RegExp[];
+  remoteConfig: RemoteConfigSettings;
+  session: SessionConfig;
+  crossTab: CrossTabConfig;
+  consent: ConsentConfig;
+  privacySignals: PrivacySignalConfig;
+  scrubbing: ScrubbingConfig;
+  urls: UrlProcessingConfig;
+  persistence: PersistenceConfig;
+  compression: CompressionConfig;
+  circuitBreaker: CircuitBreakerConfig;
   debug: boolean;
+  onDeadLetter?: (entries: DeadLetterEntry[]) => void;
+  middleware: MiddlewareConfig;
+  middlewareTimeoutMs: number;
 };
 
+const DEFAULT_MIDDLEWARE_TIMEOUT_MS = 1000;
+// Always running and not consent gated, see registerCollectors
+const ECOMMERCE_COLLECTOR_NAME = 'ecommerce';
+
 const MAX_RECENT_INTERACTIONS = 10;
 
 interface RecentInteraction {
@@ -72,33 +309,97 @@ interface RecentInteraction {
   description: string;
 }
 
+interface PendingConsentEvent {
+  event: BaseEvent;
+  sessionId: string;
+}
+
 type SdkState = {
   config: InternalConfig;
   apiClient: ApiClient;
+  sessionManager: SessionManager;
+  identity: IdentityStore;
+  superProperties: SuperPropertyStore;
+  pageContext: PageContextStore;
+  eventTimers: EventTimerRegistry;
+  consent: ConsentManager;
+  privacy: PrivacyContext;
+  scrubber: Scrubber | null;
+  urlProcessor: UrlProcessor;
+  middleware: MiddlewarePipeline;
+  rateLimiter: RateLimiter | null;
+  errorGrouper: ErrorGrouper | null;
+  pendingConsentEvents: PendingConsentEvent[];
+  tabCoordinator: TabCoordinator | null;
   sessionId: string;
+  clock: ClockSync;
   eventQueue: EventQueue | null;
   sessionStartTime: number;
   pageViewCount: number;
   interactionCount: number;
   isInitialized: boolean;
+  isDisabledRemotely: boolean;
   collectors: Collector[];
+  customCollectors: Collector[];
+  removedCollectorNames: Set<string>;
   lastPageUrl: string;
   lastPageTitle: string;
   lastPageEntryTime: number;
   hadCartItems: boolean;
   recentInteractions: RecentInteraction[];
+  hasSentSessionEndOnUnload: boolean;
+  // Ends are only reported for sessions the backend was told about
+  hasReportedSessionStart: boolean;
+  isEventStoreShared: boolean;
+  removePageLifecycleHandlers: (() => void) | null;
+  removeTabMessageListener: (() => void) | null;
+  disconnectConsentPlatform: (() => void) | null;
 };
 
 export type CrowSDK = {
   initializeSdk: () => Promise<void>;
-  trackEvent: (eventType: EventType, data?: Record<string, any>) => void;
-  trackPageView: (data?: Record<string, any>) => void;
-  trackClick: (data?: Record<string, any>) => void;
+  trackEvent: <T extends EventType>(
+    eventType: T,
+    data?: EventPayloadMap[T]
+  ) => void;
+  trackPageView: (data?: PageViewPayload) => void;
+  trackClick: (data?: ClickPayload) => void;
+  /** Starts timing an event; `end()` tracks it as a timed_event with its durations */
+  time: (eventName: string) => TimedEventHandle;
   flushQueuedEvents: () => Promise<void>;
+  identify: (userId: string, traits?: UserTraits) => void;
+  alias: (userId: string, previousId?: string) => void;
+  reset: () => void;
+  getAnonymousId: () => string;
+  register: (properties: SuperProperties) => void;
+  registerOnce: (properties: SuperProperties) => void;
+  unregister: (name: string) => void;
+  setPageContext: (context: PageContext) => void;
+  setConsent: (update: ConsentUpdate) => void;
+  getConsent: () => ConsentState;
+  addCollector: (collector: Collector) => void;
+  removeCollector: (name: string) => void;
+  addMiddleware: <S extends MiddlewareStage>(
+    stage: S,
+    middleware: Middleware<MiddlewarePayloads[S]>
+  ) => () => void;
   destroySdk: () => void;
   trackAddToCart: (data: AddToCartData) => void;
   trackVariantSelect: (data: VariantSelectData) => void;
   trackImageZoom: (data: ImageZoomData) => void;
+  trackViewItem: (data: ViewItemData) => void;
+  trackViewItemList: (data: ViewItemListData) => void;
+  trackSelectItem: (data: SelectItemData) => void;
+  trackRemoveFromCart: (data: RemoveFromCartData) => void;
+  trackViewCart: (data: ViewCartData) => void;
+  trackBeginCheckout: (data: BeginCheckoutData) => void;
+  trackAddShippingInfo: (data: AddShippingInfoData) => void;
+  trackAddPaymentInfo: (data: AddPaymentInfoData) => void;
+  trackPurchase: (data: PurchaseData) => void;
+  trackRefund: (data: RefundData) => void;
+  getTransportStats: () => TransportStats;
+  getDeliveryStats: () => DeliveryStats;
+  getDeadLetterEntries: () => DeadLetterEntry[];
 };
 
 function throwIfNotBrowserEnvironment(): void {
@@ -106,15 +407,86 @@ function throwIfNotBrowserEnvironment(): void {
   throw new Error('[Crow] SDK can only be initialized in browser environment');
 }
 
+function buildMiddlewareConfig(userConfig: CrowConfig): MiddlewareConfig {
+  const beforeSend = userConfig.beforeSend ?? [];
+  return {
+    ...userConfig.middleware,
+    event: [
+      ...(Array.isArray(beforeSend) ? beforeSend : [beforeSend]),
+      ...(userConfig.middleware?.event ?? []),
+    ],
+  };
+}
+
 function buildInternalConfig(userConfig: CrowConfig): InternalConfig {
   return {
     apiEndpoint: userConfig.ingestUrl ?? NEXT_BASE_URL,
+    projectId: userConfig.projectId,
     capture: {
       ...DEFAULT_CAPTURE_CONFIG,
       ...userConfig.capture,
     },
     batching: DEFAULT_BATCHING_CONFIG,
+    sampling: {
+      ...DEFAULT_SAMPLING_CONFIG,
+      ...userConfig.sampling,
+      eventTypeRates: { ...userConfig.sampling?.eventTypeRates },
+    },
+    rateLimits: {
+      ...DEFAULT_RATE_LIMIT_CONFIG,
+      ...userConfig.rateLimits,
+      eventTypeLimits: {
+        ...DEFAULT_RATE_LIMIT_CONFIG.eventTypeLimits,
+        ...userConfig.rateLimits?.eventTypeLimits,
+      },
+    },
+    masking: DEFAULT_MASKING_CONFIG,
+    blockedUrlPatterns: [],
+    remoteConfig: {
+      ...DEFAULT_REMOTE_CONFIG_SETTINGS,
+      ...userConfig.remoteConfig,
+    },
+    session: {
+      ...DEFAULT_SESSION_CONFIG,
+      ...userConfig.session,
+    },
+    crossTab: {
+      ...DEFAULT_CROSS_TAB_CONFIG,
+      ...userConfig.crossTab,
+    },
+    consent: {
+      ...DEFAULT_CONSENT_CONFIG,
+      ...userConfig.consent,
+    },
+    privacySignals: {
+      ...DEFAULT_PRIVACY_SIGNAL_CONFIG,
+      ...userConfig.privacySignals,
+    },
+    scrubbing: {
+      ...DEFAULT_SCRUBBING_CONFIG,
+      ...userConfig.scrubbing,
+    },
+    urls: {
+      ...DEFAULT_URL_PROCESSING_CONFIG,
+      ...userConfig.urls,
+    },
+    persistence: {
+      ...DEFAULT_PERSISTENCE_CONFIG,
+      ...userConfig.persistence,
+    },
+    compression: {
+      ...DEFAULT_COMPRESSION_CONFIG,
+      ...userConfig.compression,
+    },
+    circuitBreaker: {
+      ...DEFAULT_CIRCUIT_BREAKER_CONFIG,
+      ...userConfig.circuitBreaker,
+    },
     debug: userConfig.debug ?? false,
+    onDeadLetter: userConfig.onDeadLetter,
+    middleware: buildMiddlewareConfig(userConfig),
+    middlewareTimeoutMs:
+      userConfig.middlewareTimeoutMs ?? DEFAULT_MIDDLEWARE_TIMEOUT_MS,
   };
 }
 
@@ -130,25 +502,160 @@ function getCurrentScreenSize(): ScreenSize {
   };
 }
 
-function buildSessionContext(): SessionContext {
+function reportRedactions(
+  state: SdkState,
+  source: string,
+  redactions: Redaction[]
+): void {
+  if (redactions.length === 0) return;
+  logDebugMessage(state, `PII redacted from ${source}`, { redactions });
+}
+
+function scrubOutgoingData<T>(state: SdkState, value: T, source: string): T {
+  if (!state.scrubber) return value;
+
+  const redactions: Redaction[] = [];
+  const scrubbedValue = state.scrubber.scrub(value, source, redactions);
+  reportRedactions(state, source, redactions);
+  return scrubbedValue;
+}
+
+// Envelope fields are SDK-generated; only page and caller content is scrubbed
+function scrubEvent(state: SdkState, event: BaseEvent): BaseEvent {
+  if (!state.scrubber) return event;
+
+  const redactions: Redaction[] = [];
+  const scrubbedEvent: BaseEvent = {
+    ...event,
+    url: state.scrubber.scrub(event.url, 'url', redactions),
+    referrer: state.scrubber.scrub(event.referrer, 'referrer', redactions),
+    data: state.scrubber.scrub(event.data, 'data', redactions),
+  };
+  reportRedactions(state, `"${event.type}" event`, redactions);
+  return scrubbedEvent;
+}
+
+function buildSessionContext(state: SdkState): SessionContext {
   return {
-    url: window.location.href,
-    referrer: document.referrer,
+    url: scrubOutgoingData(
+      state,
+      state.urlProcessor.sanitizeUrl(window.location.href),
+      'url'
+    ),
+    referrer: scrubOutgoingData(
+      state,
+      state.urlProcessor.sanitizeUrl(document.referrer),
+      'referrer'
+    ),
     userAgent: navigator.userAgent,
     screenSize: getCurrentScreenSize(),
     timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
     locale: navigator.language,
+    privacy: state.privacy,
+  };
+}
+
+function updateClockFromResponse(
+  state: SdkState,
+  response: { serverTime?: number },
+  requestSentAt: number
+): void {
+  if (response.serverTime === undefined) return;
+
+  state.clock.recordServerTime(
+    response.serverTime,
+    requestSentAt,
+    state.clock.readMonotonicTime()
+  );
+}
+
+// Anonymous mode drops them too: an in-memory ID would still link a page's events
+function shouldStripIdentifiers(state: SdkState): boolean {
+  return (
+    state.privacy.mode === 'strip_identifiers' ||
+    state.privacy.mode === 'anonymous'
+  );
+}
+
+function allowsPersistentStorage(privacyMode: PrivacyMode): boolean {
+  return privacyMode === 'none' || privacyMode === 'strip_identifiers';
+}
+
+function buildIdentityFields(
+  state: SdkState
+): Pick<BaseEvent, 'anonymousId' | 'userId'> {
+  if (shouldStripIdentifiers(state)) return {};
+
+  const identity = state.identity.getIdentity();
+  return identity.userId === null
+    ? { anonymousId: identity.anonymousId }
+    : { anonymousId: identity.anonymousId, userId: identity.userId };
+}
+
+function buildSamplingDecision(state: SdkState): SamplingDecision {
+  const { sessionRate, replayRate, performanceRate } = state.config.sampling;
+  return {
+    sessionRate,
+    replayRate,
+    performanceRate,
+    isSessionSampledIn: isSessionSampledIn(
+      state.sessionId,
+      sessionRate,
+      'session'
+    ),
+    isReplaySampledIn: isSessionSampledIn(
+      state.sessionId,
+      replayRate,
+      'replay'
+    ),
+    isPerformanceSampledIn: isSessionSampledIn(
+      state.sessionId,
+      performanceRate,
+      'performance'
+    ),
   };
 }
 
 async function sendSessionStartRequest(state: SdkState): Promise<void> {
-  const sessionContext = buildSessionContext();
+  const sessionContext = buildSessionContext(state);
 
-  const response = await state.apiClient.startNewSession({
-    sessionId: state.sessionId,
-    projectId: (state as any).projectId,
+  const sessionId = state.sessionId;
+  state.hasReportedSessionStart = true;
+  releaseSessionEndClaim(sessionId, getSessionStorageScope(state.config));
+
+  const sessionStartRequest = await state.middleware.run('sessionStart', {
+    sessionId,
+    projectId: state.config.projectId,
+    ...buildIdentityFields(state),
     context: sessionContext,
+    sampling: buildSamplingDecision(state),
+    superProperties: scrubOutgoingData(
+      state,
+      state.superProperties.getProperties(sessionId),
+      'superProperties'
+    ),
+    pageContext: scrubOutgoingData(
+      state,
+      state.pageContext.getPageContext(),
+      'pageContext'
+    ),
   });
+  if (!sessionStartRequest) {
+    logDebugMessage(state, 'Session start dropped by middleware');
+    return;
+  }
+
+  // Taken after middleware, which may be slow, so only the round trip counts
+  const requestSentAt = state.clock.readMonotonicTime();
+  const response = await state.apiClient.startNewSession(sessionStartRequest);
+  updateClockFromResponse(state, response, requestSentAt);
+
+  if (response.expiresAt !== undefined) {
+    state.sessionManager.applyServerExpiry(
+      sessionId,
+      response.expiresAt - state.clock.getOffsetMs()
+    );
+  }
 
   logDebugMessage(state, 'Session started', { response });
 }
@@ -157,6 +664,16 @@ function calculateSessionDuration(state: SdkState): number {
   return Date.now() - state.sessionStartTime;
 }
 
+function formatAmount(amount?: number, currency?: string): string {
+  if (typeof amount !== 'number') return '';
+  return currency ? ` (${amount.toFixed(2)} ${currency})` : ` (${amount})`;
+}
+
+function describeItemCount(items?: unknown[]): string {
+  const count = items?.length ?? 0;
+  return `${count} ${count === 1 ? 'item' : 'items'}`;
+}
+
 function buildInteractionDescription(
   eventType: EventType,
   data?: Record<string, any>
@@ -170,6 +687,26 @@ function buildInteractionDescription(
       return `Selected variant: ${data?.variantName || data?.variantId || 'variant'}`;
     case 'image_zoom':
       return `Zoomed into product image`;
+    case 'view_item':
+      return `Viewed product: ${data?.name || data?.productId || 'product'}`;
+    case 'view_item_list':
+      return `Viewed ${data?.listName || data?.listId || 'product list'} (${describeItemCount(data?.items)})`;
+    case 'select_item':
+      return `Selected product: ${data?.name || data?.productId || 'product'}${data?.listName ? ` from ${data.listName}` : ''}`;
+    case 'remove_from_cart':
+      return `Removed from cart: ${data?.productId || 'product'}`;
+    case 'view_cart':
+      return `Viewed cart with ${describeItemCount(data?.items)}${formatAmount(data?.value, data?.currency)}`;
+    case 'begin_checkout':
+      return `Started checkout with ${describeItemCount(data?.items)}${formatAmount(data?.value, data?.currency)}`;
+    case 'add_shipping_info':
+      return `Added shipping info${data?.shippingTier ? `: ${data.shippingTier}` : ''}`;
+    case 'add_payment_info':
+      return `Added payment info${data?.paymentType ? `: ${data.paymentType}` : ''}`;
+    case 'purchase':
+      return `Purchased order ${data?.orderId || ''}${formatAmount(data?.revenue, data?.currency)}`;
+    case 'refund':
+      return `Refunded order ${data?.orderId || ''}${formatAmount(data?.amount, data?.currency)}`;
     case 'navigation':
       return `Navigated to ${data?.to || 'page'}`;
     default:
@@ -193,6 +730,7 @@ function buildExitContext(
       description: i.description,
     })),
     totalSessionDurationMs: calculateSessionDuration(state),
+    openTimers: state.eventTimers.getOpenTimers(),
   };
 }
 
@@ -202,13 +740,18 @@ function updateExitTrackingState(
   data?: Record<string, any>
 ): void {
   if (eventType === 'pageview' || eventType === 'navigation') {
-    state.lastPageUrl = window.location.href;
+    state.lastPageUrl = state.urlProcessor.sanitizeUrl(window.location.href);
     state.lastPageTitle = document.title;
     state.lastPageEntryTime = Date.now();
   }
 
   if (eventType === 'add_to_cart') {
     state.hadCartItems = true;
+  } else if (eventType === 'view_cart' || eventType === 'begin_checkout') {
+    state.hadCartItems = (data?.items?.length ?? 0) > 0;
+  } else if (eventType === 'purchase') {
+    // The cart was checked out, so leaving now isn't an abandoned cart
+    state.hadCartItems = false;
   }
 
   const trackableInteractions: EventType[] = [
@@ -216,6 +759,16 @@ function updateExitTrackingState(
     'add_to_cart',
     'variant_select',
     'image_zoom',
+    'view_item',
+    'view_item_list',
+    'select_item',
+    'remove_from_cart',
+    'view_cart',
+    'begin_checkout',
+    'add_shipping_info',
+    'add_payment_info',
+    'purchase',
+    'refund',
     'navigation',
   ];
 
@@ -235,38 +788,145 @@ function updateExitTrackingState(
   }
 }
 
+function getSessionStorageScope(config: InternalConfig): SessionStorageScope {
+  return config.crossTab.enabled ? 'shared' : 'tab';
+}
+
+// With a shared session the stored counters include every tab's activity
+function getSessionCounters(state: SdkState): SessionCounters {
+  if (getSessionStorageScope(state.config) === 'tab') {
+    return {
+      pageViews: state.pageViewCount,
+      interactions: state.interactionCount,
+    };
+  }
+  return readSessionCounters(state.sessionId, 'shared');
+}
+
+function buildSessionEndRequest(
+  state: SdkState,
+  exitTrigger: ExitTriggerType
+): SessionEndRequest {
+  const counters = getSessionCounters(state);
+  return {
+    sessionId: state.sessionId,
+    duration: calculateSessionDuration(state),
+    pageViews: counters.pageViews,
+    interactions: counters.interactions,
+    exitContext: scrubOutgoingData(
+      state,
+      buildExitContext(state, exitTrigger),
+      'exitContext'
+    ),
+  };
+}
+
+// Closing or tearing down one tab must not end a session other tabs still use
+function canReportSessionEndFromThisTab(state: SdkState): boolean {
+  if (!state.hasReportedSessionStart) return false;
+  if (state.tabCoordinator?.hasOtherActiveTabs()) return false;
+  return claimSessionEnd(state.sessionId, getSessionStorageScope(state.config));
+}
+
 async function sendSessionEndRequest(
   state: SdkState,
   exitTrigger: ExitTriggerType = 'tab_close'
 ): Promise<void> {
-  const sessionDuration = calculateSessionDuration(state);
-  const exitContext = buildExitContext(state, exitTrigger);
+  const sessionEndRequest = await state.middleware.run(
+    'sessionEnd',
+    buildSessionEndRequest(state, exitTrigger)
+  );
+  if (!sessionEndRequest) {
+    logDebugMessage(state, 'Session end dropped by middleware');
+    return;
+  }
 
-  const response = await state.apiClient.endCurrentSession({
-    sessionId: state.sessionId,
-    duration: sessionDuration,
-    pageViews: state.pageViewCount,
-    interactions: state.interactionCount,
-    exitContext,
-  });
+  const response = await state.apiClient.endCurrentSession(sessionEndRequest);
 
   logDebugMessage(state, 'Session ended', {
     response,
-    duration: sessionDuration,
+    duration: sessionEndRequest.duration,
+    exitTrigger,
+  });
+}
+
+function sendSessionEndRequestOnUnload(
+  state: SdkState,
+  exitTrigger: ExitTriggerType
+): void {
+  if (
+    state.hasSentSessionEndOnUnload ||
+    !state.sessionManager.isSessionActive() ||
+    !canReportSessionEndFromThisTab(state)
+  ) {
+    return;
+  }
+
+  const sessionEndRequest = state.middleware.runSync(
+    'sessionEnd',
+    buildSessionEndRequest(state, exitTrigger)
+  );
+  if (!sessionEndRequest) {
+    // Counts as handled, so the page lifecycle doesn't report it again
+    state.hasSentSessionEndOnUnload = true;
+    logDebugMessage(state, 'Session end dropped by middleware');
+    return;
+  }
+
+  state.hasSentSessionEndOnUnload =
+    state.apiClient.endCurrentSessionOnUnload(sessionEndRequest);
+
+  logDebugMessage(state, 'Session end handed off on unload', {
+    delivered: state.hasSentSessionEndOnUnload,
     exitTrigger,
   });
 }
 
+// Events emitted by the performance collector only exist in performance-sampled sessions
+const PERFORMANCE_COLLECTOR_EVENTS: ReadonlySet<EventType> = new Set([
+  'performance',
+  'web_vital',
+  'api_error',
+]);
+
+function getEventTypeSampleRate(state: SdkState, eventType: EventType): number {
+  return state.config.sampling.eventTypeRates[eventType] ?? 1;
+}
+
+// The chance an event of this type survived every sampling stage
+function getEffectiveSampleRate(state: SdkState, eventType: EventType): number {
+  const { sessionRate, performanceRate } = state.config.sampling;
+  const collectorRate = PERFORMANCE_COLLECTOR_EVENTS.has(eventType)
+    ? performanceRate
+    : 1;
+  return sessionRate * collectorRate * getEventTypeSampleRate(state, eventType);
+}
+
+// Sequence numbers are only issued to events that are actually sent, see
+// queueOrSendEventImmediately, so a gap in seq always means a lost event
+const UNSEQUENCED_EVENT = -1;
+
 function buildBaseEvent(
+  state: SdkState,
   eventType: EventType,
   eventData?: Record<string, any>
 ): BaseEvent {
+  const page = state.urlProcessor.processUrl(window.location.href);
   return {
+    eventId: generateEventId(),
+    seq: UNSEQUENCED_EVENT,
+    schemaVersion: EVENT_SCHEMA_VERSION,
+    clientTimestamp: Date.now(),
+    ...buildIdentityFields(state),
+    sampleRate: getEffectiveSampleRate(state, eventType),
     type: eventType,
-    timestamp: Date.now(),
-    url: window.location.href,
-    referrer: document.referrer,
+    timestamp: state.clock.now(),
+    url: page.url,
+    routeTemplate: page.routeTemplate,
+    referrer: state.urlProcessor.sanitizeUrl(document.referrer),
     data: {
+      ...state.superProperties.getProperties(state.sessionId),
+      ...state.pageContext.getPageContext(),
       ...eventData,
       pageTitle: document.title,
       scrollPosition: {
@@ -282,10 +942,11 @@ function buildBaseEvent(
 
 async function sendSingleEventToApi(
   state: SdkState,
-  event: BaseEvent
+  event: BaseEvent,
+  sessionId: string
 ): Promise<void> {
   const response = await state.apiClient.sendTrackingEvent({
-    sessionId: state.sessionId,
+    sessionId,
     event,
   });
 
@@ -294,37 +955,101 @@ async function sendSingleEventToApi(
 
 async function sendBatchedEventsToApi(
   state: SdkState,
-  events: BaseEvent[]
-): Promise<void> {
-  if (events.length === 0) return;
+  events: BaseEvent[],
+  sessionId: string
+): Promise<BatchResponse> {
+  if (events.length === 0) return { success: true, processed: 0 };
 
+  const requestSentAt = state.clock.readMonotonicTime();
   const response = await state.apiClient.sendBatchedEvents({
-    sessionId: state.sessionId,
+    sessionId,
     events,
   });
+  updateClockFromResponse(state, response, requestSentAt);
 
-  logDebugMessage(state, 'Batch sent', { eventCount: events.length, response });
+  logDebugMessage(state, 'Batch sent', {
+    eventCount: events.length,
+    sessionId,
+    response,
+  });
+
+  return response;
 }
 
-function queueOrSendEventImmediately(state: SdkState, event: BaseEvent): void {
+function queueOrSendEventImmediately(
+  state: SdkState,
+  unsequencedEvent: BaseEvent,
+  sessionId = state.sessionId
+): void {
+  const event: BaseEvent = {
+    ...unsequencedEvent,
+    seq: getNextSessionSequenceNumber(
+      sessionId,
+      getSessionStorageScope(state.config)
+    ),
+  };
+
   if (state.config.batching.enabled && state.eventQueue) {
-    state.eventQueue.addEventToQueue(event);
+    state.eventQueue.addEventToQueue(event, sessionId);
     logDebugMessage(state, 'Event queued', { event });
     return;
   }
 
-  sendSingleEventToApi(state, event);
+  sendSingleEventToApi(state, event, sessionId).catch(error => {
+    console.error('[Crow] Failed to send event:', error);
+  });
+}
+
+function holdEventUntilConsent(
+  state: SdkState,
+  event: BaseEvent,
+  sessionId: string
+): void {
+  const { whilePending, maxPendingEvents } = state.config.consent;
+  if (!state.consent.isPending('analytics') || whilePending === 'drop') {
+    logDebugMessage(state, `Event "${event.type}" dropped without consent`);
+    return;
+  }
+
+  state.pendingConsentEvents.push({ event, sessionId });
+  if (state.pendingConsentEvents.length > maxPendingEvents) {
+    state.pendingConsentEvents =
+      state.pendingConsentEvents.slice(-maxPendingEvents);
+  }
+}
+
+function sendEventsHeldForConsent(state: SdkState): void {
+  const pendingEvents = state.pendingConsentEvents;
+  state.pendingConsentEvents = [];
+  for (const { event, sessionId } of pendingEvents) {
+    queueOrSendEventImmediately(state, event, sessionId);
+  }
+}
+
+function incrementSharedCounterIfEnabled(
+  state: SdkState,
+  counterName: keyof SessionCounters
+): void {
+  if (getSessionStorageScope(state.config) === 'tab') return;
+  incrementSessionCounter(state.sessionId, counterName, 'shared');
 }
 
 function incrementPageViewCounter(state: SdkState): void {
   state.pageViewCount++;
+  incrementSharedCounterIfEnabled(state, 'pageViews');
 }
 
 function incrementInteractionCounter(state: SdkState): void {
   state.interactionCount++;
+  incrementSharedCounterIfEnabled(state, 'interactions');
 }
 
+// Identity calls are bookkeeping, not something the visitor did
+const IDENTITY_EVENTS: Set<EventType> = new Set(['identify', 'alias']);
+
 function updateEventCounters(state: SdkState, eventType: EventType): void {
+  if (IDENTITY_EVENTS.has(eventType)) return;
+
   if (eventType === 'pageview') {
     incrementPageViewCounter(state);
     return;
@@ -341,15 +1066,86 @@ const ANALYTICS_ONLY_EVENTS: Set<EventType> = new Set([
   'navigation',
 ]);
 
+type PayloadValidator = (
+  eventType: EventType,
+  data: Record<string, any>
+) => string[];
+
+// Loaded on first use so the generated schemas stay out of production bundles
+let payloadValidatorPromise: Promise<PayloadValidator> | null = null;
+
+function loadPayloadValidator(): Promise<PayloadValidator> {
+  if (!payloadValidatorPromise) {
+    payloadValidatorPromise = Promise.all([
+      import('./schema/event-payloads'),
+      import('./utils/payload-validator'),
+    ]).then(([{ EVENT_PAYLOAD_SCHEMAS }, { validateAgainstSchema }]) => {
+      return (eventType, data) => {
+        const schema = EVENT_PAYLOAD_SCHEMAS[eventType];
+        return schema ? validateAgainstSchema(schema, data, 'data') : [];
+      };
+    });
+  }
+  return payloadValidatorPromise;
+}
+
+// Only in debug mode: custom events have no schema unless the app generates one
+function warnOnPayloadMismatch(
+  eventType: EventType,
+  data?: Record<string, any>
+): void {
+  const payload = data ?? {};
+  loadPayloadValidator()
+    .then(validate => {
+      const problems = validate(eventType, payload);
+      if (problems.length === 0) return;
+      console.warn(
+        `[Crow] "${eventType}" payload does not match its schema:`,
+        problems
+      );
+    })
+    .catch(error => {
+      console.warn('[Crow] Failed to load payload schemas:', error);
+    });
+}
+
 function trackEventAndExtendSession(
   state: SdkState,
   eventType: EventType,
   data?: Record<string, any>
 ): void {
+  if (state.config.debug) warnOnPayloadMismatch(eventType, data);
+
+  // Rolls over first, so an event after a timeout counts toward the new session
+  state.sessionManager.recordActivity();
+
   // Always update local state (counters, exit context) regardless of send gate
   updateEventCounters(state, eventType);
   updateExitTrackingState(state, eventType, data);
-  extendCurrentSessionExpiry();
+
+  if (state.isDisabledRemotely || state.privacy.mode === 'disable') return;
+
+  if (
+    matchesAnyUrlPattern(window.location.href, state.config.blockedUrlPatterns)
+  ) {
+    logDebugMessage(state, `Event "${eventType}" dropped on blocked URL`);
+    return;
+  }
+
+  if (
+    !isSessionSampledIn(
+      state.sessionId,
+      state.config.sampling.sessionRate,
+      'session'
+    )
+  ) {
+    return;
+  }
+
+  if (!isEventSampledIn(getEventTypeSampleRate(state, eventType))) {
+    logDebugMessage(state, `Event "${eventType}" sampled out`);
+    return;
+  }
 
   // Skip sending to backend if gated
   if (
@@ -360,39 +1156,311 @@ function trackEventAndExtendSession(
     return;
   }
 
-  const event = buildBaseEvent(eventType, data);
-  queueOrSendEventImmediately(state, event);
+  if (state.apiClient.isEventTypeBlocked(eventType)) {
+    logDebugMessage(state, `Event "${eventType}" blocked by ingest service`);
+    return;
+  }
+
+  if (!passesRateLimits(state, eventType, data)) return;
+
+  sendTrackedEvent(state, eventType, data);
 }
 
-function registerCollectors(state: SdkState): void {
-  const { capture } = state.config;
+function sendTrackedEvent(
+  state: SdkState,
+  eventType: EventType,
+  data?: Record<string, any>
+): void {
+  const sessionId = state.sessionId;
+  whenSettled(
+    state.middleware.run('event', buildBaseEvent(state, eventType, data)),
+    event => dispatchProcessedEvent(state, event, sessionId)
+  );
+}
+
+const GROUPED_ERROR_EVENTS: ReadonlySet<EventType> = new Set([
+  'error',
+  'api_error',
+]);
+
+function passesRateLimits(
+  state: SdkState,
+  eventType: EventType,
+  data?: Record<string, any>
+): boolean {
+  if (state.rateLimiter && !state.rateLimiter.tryAcquire(eventType)) {
+    return false;
+  }
+  // Only errors the limiter let through count toward their group's repeats
+  if (GROUPED_ERROR_EVENTS.has(eventType) && state.errorGrouper) {
+    return state.errorGrouper.shouldSend(eventType, data);
+  }
+  return true;
+}
+
+// Summaries bypass the limiter: they are what keeps the dropped events visible
+function sendRepeatedErrorSummary(
+  state: SdkState,
+  eventType: EventType,
+  data: Record<string, any>,
+  occurrences: number
+): void {
+  sendTrackedEvent(state, eventType, { ...data, occurrences, isRepeat: true });
+}
+
+function sendSuppressionSummary(
+  state: SdkState,
+  counts: SuppressedCounts
+): void {
+  const totalSuppressed = Object.values(counts).reduce(
+    (total, count) => total + (count ?? 0),
+    0
+  );
+  logDebugMessage(state, 'Events suppressed by rate limits', counts);
+  sendTrackedEvent(state, 'events_suppressed', { counts, totalSuppressed });
+}
+
+function flushRateLimitSummaries(state: SdkState): void {
+  state.errorGrouper?.flush();
+  state.rateLimiter?.flushSuppressedCounts();
+}
 
-  // Always register ecommerce (it's API-driven, not auto-capture)
-  state.collectors.push(createEcommerceCollector());
+function createRateLimitersIfEnabled(state: SdkState): void {
+  const { rateLimits } = state.config;
+  if (!rateLimits.enabled) return;
 
-  if (capture.errors) {
-    state.collectors.push(createErrorCollector());
+  state.rateLimiter = createRateLimiter(rateLimits, counts =>
+    sendSuppressionSummary(state, counts)
+  );
+  if (rateLimits.errorGroupingWindowMs > 0) {
+    state.errorGrouper = createErrorGrouper(
+      rateLimits.errorGroupingWindowMs,
+      (eventType, data, occurrences) =>
+        sendRepeatedErrorSummary(state, eventType, data, occurrences)
+    );
   }
+}
+
+function destroyRateLimitersIfExist(state: SdkState): void {
+  flushRateLimitSummaries(state);
+  state.errorGrouper?.destroy();
+  state.errorGrouper = null;
+  state.rateLimiter?.destroy();
+  state.rateLimiter = null;
+}
 
-  if (capture.navigation) {
-    state.collectors.push(createNavigationCollector());
+// Scrubbing runs after middleware so enrichment can't reintroduce PII
+function dispatchProcessedEvent(
+  state: SdkState,
+  event: BaseEvent | null,
+  sessionId: string
+): void {
+  if (!event) {
+    logDebugMessage(state, 'Event dropped by middleware');
+    return;
   }
 
-  if (capture.engagement) {
-    state.collectors.push(createEngagementCollector());
+  const scrubbedEvent = scrubEvent(state, event);
+  if (!state.consent.isGranted('analytics')) {
+    holdEventUntilConsent(state, scrubbedEvent, sessionId);
+    return;
   }
 
-  if (capture.interactions) {
-    state.collectors.push(createInteractionCollector());
+  queueOrSendEventImmediately(state, scrubbedEvent, sessionId);
+}
+
+function identifyUser(
+  state: SdkState,
+  userId: string,
+  traits?: UserTraits
+): void {
+  if (!userId) {
+    console.warn('[Crow] identify() requires a userId');
+    return;
   }
 
-  if (capture.performance) {
-    state.collectors.push(createPerformanceCollector());
+  if (shouldStripIdentifiers(state)) {
+    logDebugMessage(state, 'identify() ignored under privacy signal policy');
+    return;
+  }
+
+  // Apps commonly identify on every page load; only changes are worth sending
+  const { userId: currentUserId } = state.identity.getIdentity();
+  if (userId === currentUserId && !traits) return;
+
+  state.identity.setUserId(userId);
+  trackEventAndExtendSession(state, 'identify', { traits: traits ?? {} });
+}
+
+function aliasUser(state: SdkState, userId: string, previousId?: string): void {
+  if (!userId) {
+    console.warn('[Crow] alias() requires a userId');
+    return;
+  }
+  if (shouldStripIdentifiers(state)) {
+    logDebugMessage(state, 'alias() ignored under privacy signal policy');
+    return;
   }
 
-  if (capture.replay) {
-    state.collectors.push(createReplayCollector());
+  const identity = state.identity.getIdentity();
+  trackEventAndExtendSession(state, 'alias', {
+    userId,
+    previousId: previousId ?? identity.userId ?? identity.anonymousId,
+  });
+}
+
+function resetIdentity(state: SdkState): void {
+  const identity = state.identity.reset();
+  // Super properties usually describe the user that just logged out
+  state.superProperties.clear(state.sessionId);
+  logDebugMessage(state, 'Identity reset', {
+    anonymousId: identity.anonymousId,
+  });
+}
+
+function startTimedEvent(state: SdkState, eventName: string): TimedEventHandle {
+  const timer = state.eventTimers.start(eventName);
+  return {
+    end: data => {
+      const durations = timer.stop();
+      if (!durations) return;
+
+      trackEventAndExtendSession(state, 'timed_event', {
+        ...data,
+        name: eventName,
+        ...durations,
+      });
+    },
+    cancel: () => timer.cancel(),
+  };
+}
+
+function registerSuperProperties(
+  state: SdkState,
+  properties: SuperProperties,
+  onlyIfUnset: boolean
+): void {
+  if (onlyIfUnset) {
+    state.superProperties.registerOnce(state.sessionId, properties);
+  } else {
+    state.superProperties.register(state.sessionId, properties);
   }
+  logDebugMessage(state, 'Super properties registered', {
+    superProperties: state.superProperties.getProperties(state.sessionId),
+  });
+}
+
+function unregisterSuperProperty(state: SdkState, name: string): void {
+  state.superProperties.unregister(state.sessionId, name);
+  logDebugMessage(state, `Super property "${name}" unregistered`);
+}
+
+interface ConsentGatedCollector {
+  name: string;
+  category: ConsentCategory;
+  isEnabled: boolean;
+  create: () => Collector;
+}
+
+function getConsentGatedCollectors(state: SdkState): ConsentGatedCollector[] {
+  const customCollectors = state.customCollectors.map(collector => ({
+    name: collector.name,
+    category: collector.consentCategory ?? 'analytics',
+    isEnabled: true,
+    create: () => collector,
+  }));
+  const builtInCollectors = getBuiltInCollectors(state).filter(
+    builtInCollector => !state.removedCollectorNames.has(builtInCollector.name)
+  );
+  return [...builtInCollectors, ...customCollectors];
+}
+
+function getBuiltInCollectors(state: SdkState): ConsentGatedCollector[] {
+  const { capture, sampling } = state.config;
+
+  return [
+    {
+      name: 'error',
+      category: 'analytics',
+      isEnabled: capture.errors,
+      create: createErrorCollector,
+    },
+    {
+      name: 'navigation',
+      category: 'analytics',
+      isEnabled: capture.navigation,
+      create: createNavigationCollector,
+    },
+    {
+      name: 'engagement',
+      category: 'analytics',
+      isEnabled: capture.engagement,
+      create: createEngagementCollector,
+    },
+    {
+      name: 'interaction',
+      category: 'analytics',
+      isEnabled: capture.interactions,
+      create: createInteractionCollector,
+    },
+    {
+      name: 'declarative',
+      category: 'analytics',
+      isEnabled: capture.declarativeEvents,
+      create: createDeclarativeCollector,
+    },
+    {
+      name: 'performance',
+      category: 'performance',
+      isEnabled:
+        capture.performance &&
+        isSessionSampledIn(
+          state.sessionId,
+          sampling.performanceRate,
+          'performance'
+        ),
+      create: createPerformanceCollector,
+    },
+    {
+      name: 'replay',
+      category: 'replay',
+      isEnabled:
+        capture.replay &&
+        state.privacy.mode !== 'anonymous' &&
+        isSessionSampledIn(state.sessionId, sampling.replayRate, 'replay'),
+      create: () =>
+        createReplayCollector(
+          state.config.persistence,
+          state.config.masking,
+          buildRecordOwnership(state)
+        ),
+    },
+  ];
+}
+
+// Every category builds on analytics: nothing is sent without it
+function isConsentCategoryActive(
+  state: SdkState,
+  category: ConsentCategory
+): boolean {
+  return (
+    state.consent.isGranted('analytics') && state.consent.isGranted(category)
+  );
+}
+
+// Collectors send replay chunks themselves; they pass through middleware here
+function buildCollectorApiClient(state: SdkState): ApiClient {
+  return {
+    ...state.apiClient,
+    sendReplayBatch: async data => {
+      const replayRequest = await state.middleware.run('replay', data);
+      if (!replayRequest) {
+        logDebugMessage(state, 'Replay chunk dropped by middleware');
+        return { success: true };
+      }
+      return state.apiClient.sendReplayBatch(replayRequest);
+    },
+  };
 }
 
 function buildCollectorContext(state: SdkState): CollectorContext {
@@ -400,40 +1468,213 @@ function buildCollectorContext(state: SdkState): CollectorContext {
     trackEvent: (eventType: EventType, data?: Record<string, any>) =>
       trackEventAndExtendSession(state, eventType, data),
     config: state.config.capture,
-    sessionId: state.sessionId,
-    apiClient: state.apiClient,
+    get sessionId() {
+      return state.sessionId;
+    },
+    apiClient: buildCollectorApiClient(state),
+    sanitizeUrl: url => state.urlProcessor.sanitizeUrl(url),
     debug: (message: string, data?: any) =>
       logDebugMessage(state, message, data),
   };
 }
 
-function initializeAllCollectors(state: SdkState): void {
-  const context = buildCollectorContext(state);
-  for (const collector of state.collectors) {
-    try {
-      collector.initialize(context);
-      logDebugMessage(state, `Collector "${collector.name}" initialized`);
-    } catch (error) {
-      console.error(
-        `[Crow] Failed to initialize collector "${collector.name}":`,
-        error
-      );
+function startCollector(state: SdkState, collector: Collector): void {
+  state.collectors.push(collector);
+  try {
+    collector.initialize(buildCollectorContext(state));
+    logDebugMessage(state, `Collector "${collector.name}" initialized`);
+  } catch (error) {
+    console.error(
+      `[Crow] Failed to initialize collector "${collector.name}":`,
+      error
+    );
+  }
+}
+
+function stopCollector(
+  state: SdkState,
+  collector: Collector,
+  shouldDiscardData = false
+): void {
+  state.collectors = state.collectors.filter(
+    runningCollector => runningCollector !== collector
+  );
+  try {
+    if (shouldDiscardData) collector.discard?.();
+    collector.destroy();
+    logDebugMessage(state, `Collector "${collector.name}" stopped`);
+  } catch (error) {
+    console.error(
+      `[Crow] Failed to destroy collector "${collector.name}":`,
+      error
+    );
+  }
+}
+
+function syncCollectorsWithConsent(state: SdkState): void {
+  for (const gatedCollector of getConsentGatedCollectors(state)) {
+    const runningCollector = state.collectors.find(
+      collector => collector.name === gatedCollector.name
+    );
+    const hasConsent = isConsentCategoryActive(state, gatedCollector.category);
+    const shouldRun = gatedCollector.isEnabled && hasConsent;
+
+    if (shouldRun && !runningCollector) {
+      startCollector(state, gatedCollector.create());
+    } else if (!shouldRun && runningCollector) {
+      // Without consent nothing buffered before its withdrawal may be sent;
+      // a session sampled out of replay still delivers the previous one's
+      stopCollector(state, runningCollector, !hasConsent);
     }
   }
 }
 
+// Reserved even while disabled or waiting for consent: collectors are started,
+// stopped and removed by name
+function isBuiltInCollectorName(state: SdkState, name: string): boolean {
+  return (
+    name === ECOMMERCE_COLLECTOR_NAME ||
+    getBuiltInCollectors(state).some(
+      builtInCollector => builtInCollector.name === name
+    )
+  );
+}
+
+function addCustomCollector(state: SdkState, collector: Collector): void {
+  if (isBuiltInCollectorName(state, collector.name)) {
+    console.warn(
+      `[Crow] The collector name "${collector.name}" is reserved for a built-in collector`
+    );
+    return;
+  }
+
+  const isNameTaken = state.customCollectors.some(
+    existingCollector => existingCollector.name === collector.name
+  );
+  if (isNameTaken) {
+    console.warn(`[Crow] A collector named "${collector.name}" already exists`);
+    return;
+  }
+
+  state.customCollectors.push(collector);
+  // Otherwise started by registerCollectors during initialization
+  if (state.isInitialized) syncCollectorsWithConsent(state);
+}
+
+function removeCollectorByName(state: SdkState, name: string): void {
+  state.customCollectors = state.customCollectors.filter(
+    collector => collector.name !== name
+  );
+  // Keeps consent changes from starting a removed built-in collector again
+  if (isBuiltInCollectorName(state, name)) {
+    state.removedCollectorNames.add(name);
+  }
+
+  const runningCollector = state.collectors.find(
+    collector => collector.name === name
+  );
+  if (runningCollector) stopCollector(state, runningCollector);
+}
+
+function registerCollectors(state: SdkState): void {
+  // Always register ecommerce (it's API-driven, not auto-capture); its events
+  // are held back like any other until consent is given
+  startCollector(state, createEcommerceCollector());
+  syncCollectorsWithConsent(state);
+}
+
 function destroyAllCollectors(state: SdkState): void {
+  for (const collector of [...state.collectors]) {
+    stopCollector(state, collector);
+  }
+}
+
+function notifyCollectorsOfSessionChange(
+  state: SdkState,
+  previousSessionId: string
+): void {
   for (const collector of state.collectors) {
     try {
-      collector.destroy();
+      collector.onSessionChange?.(previousSessionId);
     } catch (error) {
       console.error(
-        `[Crow] Failed to destroy collector "${collector.name}":`,
+        `[Crow] Collector "${collector.name}" failed on session change:`,
         error
       );
     }
   }
-  state.collectors = [];
+}
+
+function handleSessionEnded(
+  state: SdkState,
+  exitTrigger: ExitTriggerType
+): void {
+  logDebugMessage(state, 'Session ended locally', {
+    sessionId: state.sessionId,
+    exitTrigger,
+  });
+  // Already reported when the page was hidden into the back/forward cache
+  if (
+    !state.isInitialized ||
+    state.hasSentSessionEndOnUnload ||
+    !state.hasReportedSessionStart
+  ) {
+    return;
+  }
+  // Counts belong to the session that is ending
+  flushRateLimitSummaries(state);
+  // Tabs sharing the session all expire together; only the first reports it
+  if (!claimSessionEnd(state.sessionId, getSessionStorageScope(state.config))) {
+    return;
+  }
+
+  sendSessionEndRequest(state, exitTrigger).catch(error => {
+    console.error('[Crow] Failed to end session:', error);
+  });
+}
+
+function resetSessionScopedState(state: SdkState): void {
+  state.sessionId = state.sessionManager.getSessionId();
+  state.sessionStartTime = state.sessionManager.getSessionStartTime();
+  state.pageViewCount = 0;
+  state.interactionCount = 0;
+  state.hadCartItems = false;
+  state.recentInteractions = [];
+  state.hasSentSessionEndOnUnload = false;
+  state.hasReportedSessionStart = false;
+  state.rateLimiter?.resetSessionBudget();
+}
+
+function handleSessionStarted(
+  state: SdkState,
+  origin: SessionStartOrigin
+): void {
+  const previousSessionId = state.sessionId;
+  resetSessionScopedState(state);
+  logDebugMessage(state, 'Session rolled over', {
+    previousSessionId,
+    sessionId: state.sessionId,
+    origin,
+  });
+  if (!state.isInitialized) return;
+
+  notifyCollectorsOfSessionChange(state, previousSessionId);
+  // Replay and performance sampling are decided per session
+  syncCollectorsWithConsent(state);
+  // The tab that started the session has already announced it
+  if (origin === 'other_tab') {
+    state.hasReportedSessionStart = true;
+    return;
+  }
+  if (!state.consent.isGranted('analytics')) return;
+
+  state.tabCoordinator?.broadcast({
+    type: 'session_started',
+    sessionId: state.sessionId,
+  });
+  sendSessionStartRequest(state).catch(error => {
+    console.error('[Crow] Failed to start session:', error);
+  });
 }
 
 function setupPageViewAutoCapture(state: SdkState): void {
@@ -441,26 +1682,243 @@ function setupPageViewAutoCapture(state: SdkState): void {
   trackEventAndExtendSession(state, 'pageview', { autoCapture: true });
 }
 
-function flushQueueIfExists(state: SdkState): void {
-  if (!state.eventQueue) return;
-  state.eventQueue.flushAllQueuedEvents();
+// Needs a store every tab can read, or other tabs' events would never be sent
+function isLeaderOnlyFlushActive(state: SdkState): boolean {
+  return (
+    state.config.crossTab.leaderOnlyFlush &&
+    state.tabCoordinator !== null &&
+    state.isEventStoreShared
+  );
 }
 
-function setupPageUnloadHandler(state: SdkState): void {
-  window.addEventListener('beforeunload', () => {
-    flushQueueIfExists(state);
-    sendSessionEndRequest(state, 'tab_close');
-  });
+function isFlushOwner(state: SdkState): boolean {
+  if (!isLeaderOnlyFlushActive(state)) return true;
+  return state.tabCoordinator?.isLeader() ?? true;
+}
+
+function flushQueueForUnloadIfExists(state: SdkState): void {
+  // Other tabs' leader sends this tab's persisted events
+  if (!state.eventQueue || !isFlushOwner(state)) return;
+  // Unload requests are never confirmed, so offline they would just be lost;
+  // the events stay persisted for the next page load instead
+  if (navigator.onLine === false) return;
+
+  state.eventQueue.flushQueuedEventsForUnload((events, sessionId) =>
+    state.apiClient.sendBatchedEventsOnUnload({ sessionId, events })
+  );
+}
+
+// pagehide/visibilitychange instead of beforeunload: they fire reliably on
+// mobile and do not disqualify the page from the back/forward cache
+function setupPageLifecycleHandlers(state: SdkState): void {
+  // A hidden page may still come back, so it flushes normally: events are
+  // only removed from the store once the server confirms them
+  const handleVisibilityChange = () => {
+    if (document.visibilityState !== 'hidden') return;
+    flushAllQueuedEvents(state).catch(() => {});
+  };
+
+  const handlePageHide = (event: PageTransitionEvent) => {
+    flushRateLimitSummaries(state);
+    sendSessionEndRequestOnUnload(
+      state,
+      event.persisted ? 'navigation_away' : 'tab_close'
+    );
+    flushQueueForUnloadIfExists(state);
+    state.tabCoordinator?.leave();
+  };
+
+  const handlePageShow = (event: PageTransitionEvent) => {
+    if (!event.persisted) return;
+
+    state.tabCoordinator?.rejoin();
+    // Starts a new session instead if this one expired while cached
+    state.sessionManager.recordActivity();
+    if (!state.hasSentSessionEndOnUnload) return;
+
+    // Restored from the back/forward cache after the session was ended
+    state.hasSentSessionEndOnUnload = false;
+    sendSessionStartRequest(state).catch(error => {
+      console.error('[Crow] Failed to resume session:', error);
+    });
+  };
+
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  window.addEventListener('pagehide', handlePageHide);
+  window.addEventListener('pageshow', handlePageShow);
+
+  state.removePageLifecycleHandlers = () => {
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+    window.removeEventListener('pagehide', handlePageHide);
+    window.removeEventListener('pageshow', handlePageShow);
+  };
+}
+
+function removePageLifecycleHandlersIfExist(state: SdkState): void {
+  if (!state.removePageLifecycleHandlers) return;
+
+  state.removePageLifecycleHandlers();
+  state.removePageLifecycleHandlers = null;
+}
+
+// Open tabs are found through the tab registry; without it, restoring falls
+// back to taking every record older than the page
+function buildRecordOwnership(state: SdkState): RecordOwnership | null {
+  const tabCoordinator = state.tabCoordinator;
+  if (!tabCoordinator) return null;
+
+  return {
+    ownerId: tabCoordinator.tabId,
+    getActiveOwnerIds: () => tabCoordinator.getActiveTabIds(),
+  };
 }
 
 function createEventQueueIfBatchingEnabled(state: SdkState): void {
   if (!state.config.batching.enabled) return;
 
-  state.eventQueue = createEventQueue(
-    state.config.batching.maxBatchSize,
-    state.config.batching.flushInterval,
-    events => sendBatchedEventsToApi(state, events)
+  const store = createPersistentStore<BaseEvent>('events', {
+    ...state.config.persistence,
+    enabled:
+      state.config.persistence.enabled &&
+      allowsPersistentStorage(state.privacy.mode),
+  });
+  store.getBackendKind().then(backendKind => {
+    state.isEventStoreShared = backendKind !== 'memory';
+    logDebugMessage(state, 'Event persistence ready', { backendKind });
+  });
+
+  state.eventQueue = createEventQueue({
+    maxBatchSize: state.config.batching.maxBatchSize,
+    maxQueueSize: state.config.persistence.maxRecords,
+    flushIntervalMs: state.config.batching.flushInterval,
+    store,
+    ownership: buildRecordOwnership(state),
+    onFlushCallback: async (events, sessionId) =>
+      sendBatchedEventsToApi(state, events, sessionId),
+    onDeadLetter: entries => {
+      logDebugMessage(state, 'Events moved to dead-letter buffer', {
+        entries,
+      });
+      state.config.onDeadLetter?.(entries);
+    },
+    canFlush: () => state.apiClient.canSendNow() && isFlushOwner(state),
+    shouldReloadFromStore: () => isLeaderOnlyFlushActive(state),
+  });
+}
+
+// Remote config may only narrow what the site enabled in code, never widen it
+function mergeRemoteConfig(
+  config: InternalConfig,
+  remoteConfig: RemoteConfig
+): InternalConfig {
+  const capture = { ...config.capture };
+  for (const [key, enabled] of Object.entries(remoteConfig.capture ?? {})) {
+    const captureKey = key as keyof CaptureConfig;
+    capture[captureKey] = Boolean(capture[captureKey]) && enabled !== false;
+  }
+
+  const { eventTypeRates: remoteEventTypeRates, ...remoteSessionRates } =
+    remoteConfig.sampling ?? {};
+  const sampling = {
+    ...config.sampling,
+    eventTypeRates: { ...config.sampling.eventTypeRates },
+  };
+  for (const [key, rate] of Object.entries(remoteSessionRates)) {
+    const samplingKey = key as keyof typeof remoteSessionRates;
+    if (typeof rate === 'number') {
+      sampling[samplingKey] = Math.min(sampling[samplingKey], rate);
+    }
+  }
+  // Per-type rates can also only be lowered remotely
+  for (const [key, rate] of Object.entries(remoteEventTypeRates ?? {})) {
+    const eventType = key as EventType;
+    if (typeof rate === 'number') {
+      sampling.eventTypeRates[eventType] = Math.min(
+        config.sampling.eventTypeRates[eventType] ?? 1,
+        rate
+      );
+    }
+  }
+
+  return {
+    ...config,
+    capture,
+    sampling,
+    batching: { ...config.batching, ...remoteConfig.batching },
+    masking: {
+      ...config.masking,
+      ...remoteConfig.masking,
+      maskAllInputs:
+        config.masking.maskAllInputs ||
+        Boolean(remoteConfig.masking?.maskAllInputs),
+    },
+    blockedUrlPatterns: [
+      ...config.blockedUrlPatterns,
+      ...compileUrlPatterns(remoteConfig.blockedUrls ?? []),
+    ],
+  };
+}
+
+async function applyRemoteConfig(state: SdkState): Promise<void> {
+  const { projectId, remoteConfig: settings } = state.config;
+  if (!settings.enabled || !projectId) return;
+
+  const { config: remoteConfig, source } = await loadRemoteConfig(
+    state.apiClient,
+    projectId,
+    settings
   );
+  logDebugMessage(state, 'Remote config loaded', { source, remoteConfig });
+  if (!remoteConfig) return;
+
+  if (remoteConfig.enabled === false) {
+    state.isDisabledRemotely = true;
+    return;
+  }
+
+  state.config = mergeRemoteConfig(state.config, remoteConfig);
+}
+
+function startAnalytics(state: SdkState): void {
+  state.sessionManager.persistSession();
+  state.identity.persist();
+  state.superProperties.persist();
+
+  // The queue comes first: offline or with the circuit open, session/start
+  // fails but events must still be persisted and held events released
+  if (!state.eventQueue) {
+    createEventQueueIfBatchingEnabled(state);
+  }
+  if (!state.hasReportedSessionStart) {
+    sendSessionStartRequest(state).catch(error => {
+      console.error('[Crow] Failed to start session:', error);
+    });
+  }
+  sendEventsHeldForConsent(state);
+}
+
+function handleConsentChanged(
+  state: SdkState,
+  consentState: ConsentState
+): void {
+  setStorageAccessAllowed(
+    allowsPersistentStorage(state.privacy.mode) &&
+      consentState.analytics === 'granted'
+  );
+  logDebugMessage(state, 'Consent updated', { consent: consentState });
+  // Otherwise a later visit would be linked to this one again
+  if (consentState.analytics === 'denied') {
+    state.identity.clearStoredIdentity();
+  }
+  if (!state.isInitialized) return;
+
+  if (consentState.analytics === 'granted') {
+    startAnalytics(state);
+  } else if (consentState.analytics === 'denied') {
+    state.pendingConsentEvents = [];
+    state.eventQueue?.discardQueuedEvents();
+  }
+  syncCollectorsWithConsent(state);
 }
 
 async function initializeSdkInternal(state: SdkState): Promise<void> {
@@ -469,16 +1927,37 @@ async function initializeSdkInternal(state: SdkState): Promise<void> {
     return;
   }
 
-  await sendSessionStartRequest(state);
-  createEventQueueIfBatchingEnabled(state);
+  // Checked before the remote config fetch, the first network call
+  if (state.privacy.mode === 'disable') {
+    logDebugMessage(state, 'SDK disabled by privacy signal', {
+      privacy: state.privacy,
+    });
+    return;
+  }
+
+  // Applied first so capture flags and batching are final before collectors start
+  await applyRemoteConfig(state);
+  if (state.isDisabledRemotely) {
+    logDebugMessage(state, 'SDK disabled by remote config');
+    return;
+  }
+
+  state.disconnectConsentPlatform = connectConsentPlatform(
+    state.config.consent.platform,
+    (update, source) => state.consent.updateConsent(update, source)
+  );
+  // Until analytics consent arrives nothing is sent and events are held back
+  if (state.consent.isGranted('analytics')) {
+    startAnalytics(state);
+  }
 
   // Register and initialize collectors (handles clicks, errors, etc.)
   registerCollectors(state);
-  initializeAllCollectors(state);
 
   // Auto-capture initial pageview
   setupPageViewAutoCapture(state);
-  setupPageUnloadHandler(state);
+  setupPageLifecycleHandlers(state);
+  setupTabMessageHandlers(state);
 
   state.isInitialized = true;
   logDebugMessage(state, 'SDK initialization complete');
@@ -489,6 +1968,40 @@ async function flushAllQueuedEvents(state: SdkState): Promise<void> {
   await state.eventQueue.flushAllQueuedEvents();
 }
 
+function getQueueDeliveryStats(state: SdkState): DeliveryStats {
+  if (state.eventQueue) return state.eventQueue.getDeliveryStats();
+
+  return {
+    sentEvents: 0,
+    retriedEvents: 0,
+    rejectedEvents: 0,
+    droppedEvents: 0,
+  };
+}
+
+function setupTabMessageHandlers(state: SdkState): void {
+  if (!state.tabCoordinator) return;
+
+  state.removeTabMessageListener = state.tabCoordinator.onMessage(message => {
+    if (message.type === 'session_started') {
+      state.sessionManager.syncWithStorage();
+      return;
+    }
+
+    // A departing leader hands flushing to the next tab in line
+    if (isLeaderOnlyFlushActive(state) && isFlushOwner(state)) {
+      flushAllQueuedEvents(state).catch(() => {});
+    }
+  });
+}
+
+function removeTabMessageListenerIfExists(state: SdkState): void {
+  if (!state.removeTabMessageListener) return;
+
+  state.removeTabMessageListener();
+  state.removeTabMessageListener = null;
+}
+
 function destroyEventQueueIfExists(state: SdkState): void {
   if (!state.eventQueue) return;
 
@@ -497,9 +2010,23 @@ function destroyEventQueueIfExists(state: SdkState): void {
 }
 
 function destroySdkAndCleanup(state: SdkState): void {
+  removePageLifecycleHandlersIfExist(state);
+  removeTabMessageListenerIfExists(state);
+  state.disconnectConsentPlatform?.();
+  state.disconnectConsentPlatform = null;
   destroyAllCollectors(state);
+  destroyRateLimitersIfExist(state);
+  state.eventTimers.destroy();
   destroyEventQueueIfExists(state);
-  sendSessionEndRequest(state, 'idle_timeout');
+  if (
+    state.sessionManager.isSessionActive() &&
+    canReportSessionEndFromThisTab(state)
+  ) {
+    // Teardown goes on regardless; the request is best effort
+    sendSessionEndRequest(state, 'sdk_destroyed').catch(() => {});
+  }
+  state.sessionManager.destroy();
+  state.tabCoordinator?.destroy();
   state.isInitialized = false;
   logDebugMessage(state, 'SDK destroyed');
 }
@@ -513,31 +2040,95 @@ export function createCrowSDK(userConfig: CrowConfig): CrowSDK {
   throwIfNotBrowserEnvironment();
 
   const internalConfig = buildInternalConfig(userConfig);
-  const apiClient = createApiClient(
-    internalConfig.apiEndpoint,
-    userConfig.apiKey
+  const transport =
+    userConfig.transport ??
+    createHttpTransport({
+      baseUrl: internalConfig.apiEndpoint,
+      apiKey: userConfig.apiKey,
+      compression: internalConfig.compression,
+    });
+  const apiClient = createApiClient(transport, internalConfig.circuitBreaker);
+  const privacy = resolvePrivacyContext(internalConfig.privacySignals);
+  const urlProcessor = createUrlProcessor(internalConfig.urls);
+  const consent = createConsentManager(internalConfig.consent.defaults);
+  // Set before the session and identity are created so they stay in memory
+  setStorageAccessAllowed(
+    allowsPersistentStorage(privacy.mode) && consent.isGranted('analytics')
   );
-  const sessionId = getOrCreateSessionId();
+  const sessionManager = createSessionManager(
+    internalConfig.session,
+    getSessionStorageScope(internalConfig)
+  );
+  const sessionId = sessionManager.getSessionId();
 
-  const state: SdkState & { projectId?: string } = {
+  const state: SdkState = {
     config: internalConfig,
     apiClient,
+    sessionManager,
+    identity: createIdentityStore(),
+    superProperties: createSuperPropertyStore(
+      getSessionStorageScope(internalConfig)
+    ),
+    pageContext: createPageContextStore(),
+    eventTimers: createEventTimerRegistry(),
+    consent,
+    privacy,
+    scrubber: internalConfig.scrubbing.enabled
+      ? createScrubber(internalConfig.scrubbing)
+      : null,
+    urlProcessor,
+    middleware: createMiddlewarePipeline(
+      internalConfig.middleware,
+      internalConfig.middlewareTimeoutMs
+    ),
+    rateLimiter: null,
+    errorGrouper: null,
+    pendingConsentEvents: [],
+    tabCoordinator:
+      internalConfig.crossTab.enabled && privacy.mode !== 'disable'
+        ? createTabCoordinator()
+        : null,
     sessionId,
+    clock: createClockSync(sessionId),
     eventQueue: null,
-    sessionStartTime: Date.now(),
-    projectId: userConfig.projectId,
+    sessionStartTime: sessionManager.getSessionStartTime(),
     pageViewCount: 0,
     interactionCount: 0,
     isInitialized: false,
+    isDisabledRemotely: false,
     collectors: [],
-    lastPageUrl: window.location.href,
+    customCollectors: [],
+    removedCollectorNames: new Set(),
+    lastPageUrl: urlProcessor.sanitizeUrl(window.location.href),
     lastPageTitle: document.title,
     lastPageEntryTime: Date.now(),
     hadCartItems: false,
     recentInteractions: [],
+    hasSentSessionEndOnUnload: false,
+    hasReportedSessionStart: false,
+    isEventStoreShared: false,
+    removePageLifecycleHandlers: null,
+    removeTabMessageListener: null,
+    disconnectConsentPlatform: null,
   };
 
-  logDebugMessage(state, 'SDK initialized', { config: internalConfig });
+  sessionManager.setLifecycleCallbacks({
+    onSessionStart: (_sessionId, origin) => handleSessionStarted(state, origin),
+    onSessionEnd: (_sessionId, exitTrigger) =>
+      handleSessionEnded(state, exitTrigger),
+    shouldEndOnTimeout: () => state.tabCoordinator?.isLeader() ?? true,
+  });
+  consent.onChange(consentState => handleConsentChanged(state, consentState));
+  createRateLimitersIfEnabled(state);
+  for (const collector of userConfig.collectors ?? []) {
+    addCustomCollector(state, collector);
+  }
+
+  logDebugMessage(state, 'SDK initialized', {
+    config: internalConfig,
+    privacy,
+    transport: transport.name,
+  });
 
   const sdkInstance: CrowSDK = {
     initializeSdk: async () => initializeSdkInternal(state),
@@ -545,11 +2136,40 @@ export function createCrowSDK(userConfig: CrowConfig): CrowSDK {
       trackEventAndExtendSession(state, eventType, data),
     trackPageView: data => trackEventAndExtendSession(state, 'pageview', data),
     trackClick: data => trackEventAndExtendSession(state, 'click', data),
+    time: eventName => startTimedEvent(state, eventName),
     flushQueuedEvents: async () => flushAllQueuedEvents(state),
+    identify: (userId, traits) => identifyUser(state, userId, traits),
+    alias: (userId, previousId) => aliasUser(state, userId, previousId),
+    reset: () => resetIdentity(state),
+    getAnonymousId: () => state.identity.getIdentity().anonymousId,
+    register: properties => registerSuperProperties(state, properties, false),
+    registerOnce: properties =>
+      registerSuperProperties(state, properties, true),
+    unregister: name => unregisterSuperProperty(state, name),
+    setPageContext: context => state.pageContext.setPageContext(context),
+    setConsent: update => consent.updateConsent(update, 'api'),
+    getConsent: () => consent.getConsentState(),
+    addCollector: collector => addCustomCollector(state, collector),
+    removeCollector: name => removeCollectorByName(state, name),
+    addMiddleware: (stage, middleware) =>
+      state.middleware.add(stage, middleware),
     destroySdk: () => destroySdkAndCleanup(state),
     trackAddToCart: data => ecommerceTrackAddToCart(data),
     trackVariantSelect: data => ecommerceTrackVariantSelect(data),
     trackImageZoom: data => ecommerceTrackImageZoom(data),
+    trackViewItem: data => ecommerceTrackViewItem(data),
+    trackViewItemList: data => ecommerceTrackViewItemList(data),
+    trackSelectItem: data => ecommerceTrackSelectItem(data),
+    trackRemoveFromCart: data => ecommerceTrackRemoveFromCart(data),
+    trackViewCart: data => ecommerceTrackViewCart(data),
+    trackBeginCheckout: data => ecommerceTrackBeginCheckout(data),
+    trackAddShippingInfo: data => ecommerceTrackAddShippingInfo(data),
+    trackAddPaymentInfo: data => ecommerceTrackAddPaymentInfo(data),
+    trackPurchase: data => ecommerceTrackPurchase(data),
+    trackRefund: data => ecommerceTrackRefund(data),
+    getTransportStats: () => apiClient.getTransportStats(),
+    getDeliveryStats: () => getQueueDeliveryStats(state),
+    getDeadLetterEntries: () => state.eventQueue?.getDeadLetterEntries() ?? [],
   };
 
   makeGloballyAvailableForDebugging(sdkInstance);
@@ -1,4 +1,4 @@
-import type { BaseEvent } from '../types';
+import type { UnstampedEvent } from '../types';
 
 type AdvancedEventsConfig = {
   enableClipboard: boolean;
@@ -6,9 +6,9 @@ type AdvancedEventsConfig = {
   enableMedia: boolean;
 };
 
-type EventCallback = (event: BaseEvent) => void;
+type EventCallback = (event: UnstampedEvent) => void;
 
-function createClipboardEvent(type: 'copy' | 'paste'): BaseEvent {
+function createClipboardEvent(type: 'copy' | 'paste'): UnstampedEvent {
   const eventType = type === 'copy' ? 'clipboard_copy' : 'clipboard_paste';
   return {
     type: eventType,
@@ -17,10 +17,10 @@ function createClipboardEvent(type: 'copy' | 'paste'): BaseEvent {
     data: {
       action: type,
     },
-  } as BaseEvent;
+  } as UnstampedEvent;
 }
 
-function createVisibilityChangeEvent(): BaseEvent {
+function createVisibilityChangeEvent(): UnstampedEvent {
   return {
     type: 'visibility_change',
     timestamp: Date.now(),
@@ -29,13 +29,13 @@ function createVisibilityChangeEvent(): BaseEvent {
       hidden: document.hidden,
       visibilityState: document.visibilityState,
     },
-  } as BaseEvent;
+  } as UnstampedEvent;
 }
 
 function createMediaEvent(
   type: 'play' | 'pause',
   element: HTMLMediaElement
-): BaseEvent {
+): UnstampedEvent {
   const eventType = type === 'play' ? 'media_play' : 'media_pause';
   return {
     type: eventType,
@@ -48,10 +48,10 @@ function createMediaEvent(
       duration: element.duration,
       src: element.currentSrc?.substring(0, 200),
     },
-  } as BaseEvent;
+  } as UnstampedEvent;
 }
 
-function createDownloadEvent(url: string): BaseEvent {
+function createDownloadEvent(url: string): UnstampedEvent {
   return {
     type: 'download',
     timestamp: Date.now(),
@@ -60,7 +60,7 @@ function createDownloadEvent(url: string): BaseEvent {
       downloadUrl: url,
       fileName: url.split('/').pop(),
     },
-  } as BaseEvent;
+  } as UnstampedEvent;
 }
 
 function setupClipboardTracking(onEvent: EventCallback): () => void {
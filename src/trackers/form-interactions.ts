@@ -1,6 +1,6 @@
-import type { BaseEvent } from '../types';
+import type { UnstampedEvent } from '../types';
 
-type EventCallback = (event: BaseEvent) => void;
+type EventCallback = (event: UnstampedEvent) => void;
 
 function getFormElementData(element: HTMLElement): Record<string, any> {
   const formElement =
@@ -28,25 +28,25 @@ function getFormElementData(element: HTMLElement): Record<string, any> {
   };
 }
 
-function createFormFocusEvent(element: HTMLElement): BaseEvent {
+function createFormFocusEvent(element: HTMLElement): UnstampedEvent {
   return {
     type: 'form_focus',
     timestamp: Date.now(),
     url: window.location.href,
     data: getFormElementData(element),
-  } as BaseEvent;
+  } as UnstampedEvent;
 }
 
-function createFormBlurEvent(element: HTMLElement): BaseEvent {
+function createFormBlurEvent(element: HTMLElement): UnstampedEvent {
   return {
     type: 'form_blur',
     timestamp: Date.now(),
     url: window.location.href,
     data: getFormElementData(element),
-  } as BaseEvent;
+  } as UnstampedEvent;
 }
 
-function createFormInputEvent(element: HTMLElement): BaseEvent {
+function createFormInputEvent(element: HTMLElement): UnstampedEvent {
   const formElement =
     element instanceof HTMLInputElement ||
     element instanceof HTMLTextAreaElement ||
@@ -62,13 +62,13 @@ function createFormInputEvent(element: HTMLElement): BaseEvent {
       ...getFormElementData(element),
       valueLength: formElement?.value.length || 0,
     },
-  } as BaseEvent;
+  } as UnstampedEvent;
 }
 
 function createFormValidationEvent(
   element: HTMLElement,
   isValid: boolean
-): BaseEvent {
+): UnstampedEvent {
   const formElement =
     element instanceof HTMLInputElement ||
     element instanceof HTMLTextAreaElement ||
@@ -85,7 +85,7 @@ function createFormValidationEvent(
       valid: isValid,
       validationMessage: formElement?.validationMessage || undefined,
     },
-  } as BaseEvent;
+  } as UnstampedEvent;
 }
 
 function isFormElement(element: EventTarget | null): element is HTMLElement {
@@ -1,4 +1,4 @@
-import type { BaseEvent } from '../types';
+import type { UnstampedEvent } from '../types';
 
 const MOUSEMOVE_THROTTLE_MS = 100;
 const SCROLL_DEBOUNCE_MS = 150;
@@ -8,7 +8,7 @@ type MouseScrollConfig = {
   enableScroll: boolean;
 };
 
-type EventCallback = (event: BaseEvent) => void;
+type EventCallback = (event: UnstampedEvent) => void;
 
 function throttle<T extends (...args: any[]) => void>(
   func: T,
@@ -35,7 +35,7 @@ function debounce<T extends (...args: any[]) => void>(
   }) as T;
 }
 
-function createMousemoveEvent(mouseEvent: MouseEvent): BaseEvent {
+function createMousemoveEvent(mouseEvent: MouseEvent): UnstampedEvent {
   return {
     type: 'mousemove',
     timestamp: Date.now(),
@@ -46,10 +46,10 @@ function createMousemoveEvent(mouseEvent: MouseEvent): BaseEvent {
       pageX: mouseEvent.pageX,
       pageY: mouseEvent.pageY,
     },
-  } as BaseEvent;
+  } as UnstampedEvent;
 }
 
-function createScrollEvent(): BaseEvent {
+function createScrollEvent(): UnstampedEvent {
   return {
     type: 'scroll',
     timestamp: Date.now(),
@@ -1,6 +1,6 @@
-import type { BaseEvent } from '../types';
+import type { UnstampedEvent } from '../types';
 
-type EventCallback = (event: BaseEvent) => void;
+type EventCallback = (event: UnstampedEvent) => void;
 
 let originalFetch: typeof fetch | null = null;
 let originalXHROpen: typeof XMLHttpRequest.prototype.open | null = null;
@@ -28,7 +28,7 @@ function createNetworkRequestEvent(
   url: string,
   status: number,
   duration: number
-): BaseEvent {
+): UnstampedEvent {
   return {
     type: 'network_request',
     timestamp: Date.now(),
@@ -39,7 +39,7 @@ function createNetworkRequestEvent(
       status,
       duration,
     },
-  } as BaseEvent;
+  } as UnstampedEvent;
 }
 
 function setupFetchInterception(onEvent: EventCallback): () => void {
@@ -1,6 +1,6 @@
-import type { BaseEvent } from '../types';
+import type { UnstampedEvent } from '../types';
 
-type EventCallback = (event: BaseEvent) => void;
+type EventCallback = (event: UnstampedEvent) => void;
 
 function getNavigationTiming(): Record<string, any> | null {
   if (!performance || !performance.timing) return null;
@@ -84,7 +84,7 @@ function getCoreWebVitals(): Record<string, any> {
   return vitals;
 }
 
-function createNavigationTimingEvent(): BaseEvent {
+function createNavigationTimingEvent(): UnstampedEvent {
   return {
     type: 'performance_metric',
     timestamp: Date.now(),
@@ -93,10 +93,10 @@ function createNavigationTimingEvent(): BaseEvent {
       metricType: 'navigation_timing',
       ...getNavigationTiming(),
     },
-  } as BaseEvent;
+  } as UnstampedEvent;
 }
 
-function createResourceTimingEvent(): BaseEvent {
+function createResourceTimingEvent(): UnstampedEvent {
   return {
     type: 'performance_metric',
     timestamp: Date.now(),
@@ -105,10 +105,10 @@ function createResourceTimingEvent(): BaseEvent {
       metricType: 'resource_timing',
       resources: getResourceTiming(),
     },
-  } as BaseEvent;
+  } as UnstampedEvent;
 }
 
-function createCoreWebVitalsEvent(): BaseEvent {
+function createCoreWebVitalsEvent(): UnstampedEvent {
   return {
     type: 'performance_metric',
     timestamp: Date.now(),
@@ -117,7 +117,7 @@ function createCoreWebVitalsEvent(): BaseEvent {
       metricType: 'core_web_vitals',
       ...getCoreWebVitals(),
     },
-  } as BaseEvent;
+  } as UnstampedEvent;
 }
 
 function setupNavigationTimingTracking(onEvent: EventCallback): () => void {
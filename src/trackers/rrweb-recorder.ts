@@ -1,6 +1,6 @@
-import type { BaseEvent } from '../types';
+import type { UnstampedEvent } from '../types';
 
-type EventCallback = (event: BaseEvent) => void;
+type EventCallback = (event: UnstampedEvent) => void;
 
 type RRwebConfig = {
   sampleRate?: number;
@@ -25,7 +25,7 @@ export function setupRRwebRecording(
           const eventType = isFullSnapshot
             ? 'rrweb_snapshot'
             : 'rrweb_incremental';
-          const baseEvent: BaseEvent = {
+          const baseEvent: UnstampedEvent = {
             type: eventType,
             timestamp: event.timestamp || Date.now(),
             url: window.location.href,
@@ -33,7 +33,7 @@ export function setupRRwebRecording(
               rrwebEvent: event,
               compressed: false,
             },
-          } as BaseEvent;
+          } as UnstampedEvent;
           onEvent(baseEvent);
         },
         sampling: {
@@ -1,6 +1,6 @@
-import type { BaseEvent } from '../types';
+import type { UnstampedEvent } from '../types';
 
-type EventCallback = (event: BaseEvent) => void;
+type EventCallback = (event: UnstampedEvent) => void;
 
 function isBrowser(): boolean {
   return typeof window !== 'undefined' && typeof document !== 'undefined';
@@ -37,7 +37,10 @@ async function captureScreenshot(): Promise<string | null> {
   }
 }
 
-function createScreenshotEvent(imageData: string, trigger: string): BaseEvent {
+function createScreenshotEvent(
+  imageData: string,
+  trigger: string
+): UnstampedEvent {
   return {
     type: 'rrweb_snapshot' as const,
     timestamp: Date.now(),
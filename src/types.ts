@@ -1,9 +1,47 @@
+import type {
+  AddPaymentInfoData,
+  AddShippingInfoData,
+  AddToCartData,
+  BeginCheckoutData,
+  ImageZoomData,
+  PurchaseData,
+  RefundData,
+  RemoveFromCartData,
+  SelectItemData,
+  VariantSelectData,
+  ViewCartData,
+  ViewItemData,
+  ViewItemListData,
+} from './collectors/ecommerce';
+import type { Collector } from './collectors/types';
+
 export interface CrowConfig {
   apiKey?: string;
   projectId?: string;
   ingestUrl?: string;
   debug?: boolean;
   capture?: Partial<CaptureConfig>;
+  sampling?: Partial<SamplingConfig>;
+  rateLimits?: Partial<RateLimitConfig>;
+  persistence?: Partial<PersistenceConfig>;
+  compression?: Partial<CompressionConfig>;
+  transport?: Transport;
+  onDeadLetter?: (entries: DeadLetterEntry[]) => void;
+  circuitBreaker?: Partial<CircuitBreakerConfig>;
+  remoteConfig?: Partial<RemoteConfigSettings>;
+  session?: Partial<SessionConfig>;
+  crossTab?: Partial<CrossTabConfig>;
+  consent?: Partial<ConsentConfig>;
+  privacySignals?: Partial<PrivacySignalConfig>;
+  scrubbing?: Partial<ScrubbingConfig>;
+  urls?: Partial<UrlProcessingConfig>;
+  // Shorthand for middleware.event, run before it
+  beforeSend?: Middleware<BaseEvent> | Middleware<BaseEvent>[];
+  middleware?: MiddlewareConfig;
+  // Async middleware taking longer is skipped and the payload passed on as is
+  middlewareTimeoutMs?: number;
+  // Started alongside the built-in collectors once their consent is granted
+  collectors?: Collector[];
 }
 
 export interface CaptureConfig {
@@ -13,57 +51,544 @@ export interface CaptureConfig {
   navigation: boolean;
   engagement: boolean;
   interactions: boolean;
+  // Events declared in markup with data-crow-event
+  declarativeEvents: boolean;
   performance: boolean;
   replay: boolean;
   sendAnalyticsEvents?: boolean;
 }
 
+export interface PersistenceConfig {
+  enabled: boolean;
+  maxRecords: number;
+  ttlMs: number;
+}
+
+export type ContentEncoding = 'gzip' | 'deflate';
+
+export interface CompressionConfig {
+  enabled: boolean;
+  encoding: ContentEncoding;
+  thresholdBytes: number;
+}
+
+export interface TransportStats {
+  requestCount: number;
+  compressedRequestCount: number;
+  rawBytes: number;
+  sentBytes: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerConfig {
+  failureThreshold: number;
+  baseBackoffMs: number;
+  maxBackoffMs: number;
+}
+
+export interface IngestDirectives {
+  pauseMs?: number;
+  blockedEventTypes?: EventType[];
+  disableReplay?: boolean;
+}
+
+export interface SessionConfig {
+  inactivityTimeoutMs: number;
+  rolloverAtMidnight: boolean;
+  rolloverOnCampaignChange: boolean;
+}
+
+export interface CrossTabConfig {
+  // Shares one session across tabs of the origin; false keeps one per tab
+  enabled: boolean;
+  // Only the leader tab sends batches, picking up other tabs' persisted events
+  leaderOnlyFlush: boolean;
+}
+
+export type ConsentCategory =
+  'analytics' | 'replay' | 'performance' | 'marketing';
+
+export type ConsentStatus = 'granted' | 'denied' | 'pending';
+
+export type ConsentState = Record<ConsentCategory, ConsentStatus>;
+
+export type ConsentUpdate = Partial<Record<ConsentCategory, boolean>>;
+
+export type ConsentSource = 'api' | 'tcf' | 'gpp';
+
+export type ConsentPlatform = 'auto' | 'tcf' | 'gpp' | 'none';
+
+export interface ConsentConfig {
+  // Categories left out start as 'pending' until setConsent() or a CMP decides
+  defaults: Partial<ConsentState>;
+  // What happens to events tracked while analytics consent is pending
+  whilePending: 'buffer' | 'drop';
+  maxPendingEvents: number;
+  // CMP API to read consent from; 'auto' prefers GPP over TCF
+  platform: ConsentPlatform;
+}
+
+/**
+ * - disable: the SDK does nothing at all
+ * - anonymous: cookieless; nothing is stored, no identifiers, no replay
+ * - strip_identifiers: events go out without anonymousId or userId
+ */
+export type PrivacySignalPolicy =
+  'ignore' | 'disable' | 'anonymous' | 'strip_identifiers';
+
+export interface PrivacySignalConfig {
+  // Applied when the browser sends an honoured signal
+  policy: PrivacySignalPolicy;
+  honorGlobalPrivacyControl: boolean;
+  honorDoNotTrack: boolean;
+}
+
+export type PrivacyMode = 'none' | Exclude<PrivacySignalPolicy, 'ignore'>;
+
+export interface PrivacyContext {
+  mode: PrivacyMode;
+  globalPrivacyControl: boolean;
+  doNotTrack: boolean;
+}
+
+export type PiiDetector = 'email' | 'card' | 'phone' | 'jwt' | 'bearer';
+
+export interface ScrubbingConfig {
+  enabled: boolean;
+  detectors: PiiDetector[];
+  // Extra patterns whose matches are replaced with [REDACTED]
+  customPatterns: RegExp[];
+  // Values under keys or query parameters containing these names are dropped
+  // entirely; matched case-insensitively, ignoring "-" and "_"
+  denylistKeys: string[];
+}
+
+export interface UrlProcessingConfig {
+  // When set, only these query parameters are kept and the denylist is ignored
+  queryAllowlist: string[] | null;
+  queryDenylist: string[];
+  // 'route_only' keeps "#/path" hash routes and drops other fragments; a hash
+  // route's own query is filtered like the URL's in every mode
+  hash: 'keep' | 'strip' | 'route_only';
+  // e.g. "/product/:id"; the first matching template wins
+  routeTemplates: string[];
+  // Falls back to replacing numeric and UUID path segments with placeholders
+  inferRouteTemplates: boolean;
+}
+
+export interface MiddlewarePayloads {
+  event: BaseEvent;
+  sessionStart: SessionStartRequest;
+  sessionEnd: SessionEndRequest;
+  replay: ReplayBatchRequest;
+}
+
+export type MiddlewareStage = keyof MiddlewarePayloads;
+
+/** Returns the payload to send (or nothing to keep it as is), or null to drop it */
+export type Middleware<T> = (
+  payload: T
+) => T | null | void | Promise<T | null | void>;
+
+export type MiddlewareConfig = {
+  [S in MiddlewareStage]?: Middleware<MiddlewarePayloads[S]>[];
+};
+
+export interface BatchingConfig {
+  enabled: boolean;
+  maxBatchSize: number;
+  flushInterval: number;
+}
+
+export interface SamplingConfig {
+  // Share of sessions whose analytics events are sent at all
+  sessionRate: number;
+  replayRate: number;
+  performanceRate: number;
+  // Applied per event on top of the session rates, e.g. { web_vital: 0.1 }
+  eventTypeRates: Partial<Record<EventType, number>>;
+}
+
+export interface TokenBucketLimit {
+  // Events allowed back to back before throttling kicks in
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface RateLimitConfig {
+  enabled: boolean;
+  // Shared by all event types
+  global: TokenBucketLimit;
+  // Each event type gets its own bucket; eventTypeLimits overrides the default
+  perEventType: TokenBucketLimit;
+  eventTypeLimits: Partial<Record<EventType, TokenBucketLimit>>;
+  // Hard cap on events sent per session; 0 disables it
+  maxEventsPerSession: number;
+  // Identical errors within the window are sent once, then summarised with a count; 0 disables grouping
+  errorGroupingWindowMs: number;
+  // How often an events_suppressed summary is sent while events are being dropped
+  suppressionReportIntervalMs: number;
+}
+
+// Reported on session start so the backend can weight sampled sessions
+export interface SamplingDecision {
+  sessionRate: number;
+  replayRate: number;
+  performanceRate: number;
+  isSessionSampledIn: boolean;
+  isReplaySampledIn: boolean;
+  isPerformanceSampledIn: boolean;
+}
+
+export interface MaskingConfig {
+  maskAllInputs: boolean;
+  maskTextSelector?: string;
+  blockSelector?: string;
+}
+
+export interface RemoteConfigSettings {
+  enabled: boolean;
+  timeoutMs: number;
+}
+
+export interface RemoteConfig {
+  // Kill switch: false stops the SDK before it sends anything
+  enabled?: boolean;
+  capture?: Partial<CaptureConfig>;
+  sampling?: Partial<SamplingConfig>;
+  batching?: Partial<BatchingConfig>;
+  masking?: Partial<MaskingConfig>;
+  blockedUrls?: string[];
+}
+
+export interface RemoteConfigRequest {
+  projectId: string;
+  etag?: string;
+}
+
+export interface RemoteConfigResponse {
+  notModified: boolean;
+  config?: RemoteConfig;
+  etag?: string;
+}
+
 export interface ScreenSize {
   width: number;
   height: number;
 }
 
-export type EventType =
-  | 'pageview'
-  | 'click'
-  | 'form'
-  | 'custom'
-  | 'error'
-  | 'navigation'
-  | 'scroll'
-  | 'rage_click'
-  | 'add_to_cart'
-  | 'variant_select'
-  | 'image_zoom'
-  | 'performance'
-  | 'web_vital'
-  | 'api_error'
-  | 'clipboard_copy'
-  | 'clipboard_paste'
-  | 'visibility_change'
-  | 'media_play'
-  | 'media_pause'
-  | 'download'
-  | 'form_focus'
-  | 'form_blur'
-  | 'form_input'
-  | 'form_validation'
-  | 'mousemove'
-  | 'network_request'
-  | 'performance_metric'
-  | 'rrweb_snapshot'
-  | 'rrweb_incremental';
-
-export interface BaseEvent {
+export type DeclarativeTrigger = 'click' | 'submit' | 'view' | 'change';
+
+export interface PageViewPayload {
+  title?: string;
+  path?: string;
+  autoCapture?: boolean;
+}
+
+export interface ClickPayload {
+  tagName?: string;
+  id?: string;
+  className?: string;
+  text?: string;
+  href?: string;
+  x?: number;
+  y?: number;
+  pageX?: number;
+  pageY?: number;
+  elementPath?: string;
+  dataAttributes?: Record<string, string>;
+  accessibleName?: string;
+  visibleText?: string;
+  role?: string;
+  descriptor?: string;
+  nearestHeading?: string;
+  ariaLabel?: string;
+  placeholder?: string;
+  title?: string;
+  alt?: string;
+  scrollX?: number;
+  scrollY?: number;
+  viewportWidth?: number;
+  viewportHeight?: number;
+  autoCapture?: boolean;
+}
+
+export interface RageClickPayload {
+  x: number;
+  y: number;
+  elementPath?: string;
+  tagName: string;
+  clickCount: number;
+}
+
+export interface NavigationPayload extends UtmParameters {
+  from?: string;
+  to: string;
+  // Set on the landing page when it carries UTM parameters
+  initial?: boolean;
+}
+
+export interface ScrollPayload {
+  depth: number;
+  actualDepth: number;
+  timestamp: number;
+}
+
+// Set on the summary sent for identical errors collapsed within a window
+export interface RepeatedErrorFields {
+  occurrences?: number;
+  isRepeat?: boolean;
+}
+
+export interface ErrorPayload extends RepeatedErrorFields {
+  message: string;
+  filename?: string;
+  lineno?: number;
+  colno?: number;
+  stack?: string;
+  type?: 'uncaught_error' | 'unhandled_rejection';
+  autoCapture?: boolean;
+}
+
+export interface ApiErrorPayload extends RepeatedErrorFields {
+  url: string;
+  method: string;
+  // 0 when the request failed without a response
+  status: number;
+  statusText?: string;
+  error?: string;
+  duration: number;
+}
+
+export type WebVitalRating = 'good' | 'needs-improvement' | 'poor' | 'unknown';
+
+export interface WebVitalPayload {
+  name: string;
+  value: number;
+  rating: WebVitalRating;
+  entryType?: string;
+}
+
+export interface LongTaskPayload {
+  subtype: 'long_task';
+  duration: number;
+  startTime: number;
+}
+
+export interface PageLoadPayload {
+  subtype: 'page_load';
+  dns: number;
+  tcp: number;
+  ssl: number;
+  ttfb: number;
+  download: number;
+  domInteractive: number;
+  domComplete: number;
+  loadEvent: number;
+  totalLoad: number;
+}
+
+export type PerformancePayload = LongTaskPayload | PageLoadPayload;
+
+export interface ClipboardPayload {
+  action: 'copy' | 'paste';
+}
+
+export interface VisibilityChangePayload {
+  hidden: boolean;
+  visibilityState: DocumentVisibilityState;
+}
+
+export interface MediaPayload {
+  action: 'play' | 'pause';
+  mediaType: string;
+  currentTime: number;
+  duration: number;
+  src?: string;
+}
+
+export interface DownloadPayload {
+  downloadUrl: string;
+  fileName?: string;
+}
+
+export interface FormFieldPayload {
+  tagName: string;
+  id?: string;
+  name?: string;
+  type?: string;
+  className?: string;
+}
+
+export interface FormInputPayload extends FormFieldPayload {
+  valueLength: number;
+}
+
+export interface FormValidationPayload extends FormFieldPayload {
+  valid: boolean;
+  validationMessage?: string;
+}
+
+export interface MouseMovePayload {
+  x: number;
+  y: number;
+  pageX: number;
+  pageY: number;
+}
+
+export interface NetworkRequestPayload {
+  method: string;
+  requestUrl: string;
+  status: number;
+  duration: number;
+}
+
+export interface PerformanceMetricPayload {
+  metricType: 'navigation_timing' | 'resource_timing' | 'core_web_vitals';
+  [metric: string]: any;
+}
+
+export interface IdentifyPayload {
+  traits: UserTraits;
+}
+
+export interface AliasPayload {
+  userId: string;
+  previousId: string;
+}
+
+export interface TimerDurations {
+  wallDurationMs: number;
+  // Excludes the time the tab spent hidden
+  activeDurationMs: number;
+}
+
+export interface TimedEventPayload extends TimerDurations {
+  name: string;
+  [key: string]: any;
+}
+
+export interface EventsSuppressedPayload {
+  counts: Partial<Record<EventType, number>>;
+  totalSuppressed: number;
+}
+
+/**
+ * Payload of every event type. Custom events are typed by augmenting it:
+ *
+ *   declare module '@b3-crow/website-hook-sdk' {
+ *     interface EventPayloadMap {
+ *       signup_completed: { plan: string };
+ *     }
+ *   }
+ *
+ * `npm run generate:schema` turns it into the JSON Schema the ingest service
+ * validates against; regenerate after changing a payload.
+ */
+export interface EventPayloadMap {
+  pageview: PageViewPayload;
+  click: ClickPayload;
+  form: Record<string, any>;
+  custom: Record<string, any>;
+  error: ErrorPayload;
+  navigation: NavigationPayload;
+  scroll: ScrollPayload;
+  rage_click: RageClickPayload;
+  add_to_cart: AddToCartData;
+  variant_select: VariantSelectData;
+  image_zoom: ImageZoomData;
+  view_item: ViewItemData;
+  view_item_list: ViewItemListData;
+  select_item: SelectItemData;
+  remove_from_cart: RemoveFromCartData;
+  view_cart: ViewCartData;
+  begin_checkout: BeginCheckoutData;
+  add_shipping_info: AddShippingInfoData;
+  add_payment_info: AddPaymentInfoData;
+  purchase: PurchaseData;
+  refund: RefundData;
+  performance: PerformancePayload;
+  web_vital: WebVitalPayload;
+  api_error: ApiErrorPayload;
+  clipboard_copy: ClipboardPayload;
+  clipboard_paste: ClipboardPayload;
+  visibility_change: VisibilityChangePayload;
+  media_play: MediaPayload;
+  media_pause: MediaPayload;
+  download: DownloadPayload;
+  form_focus: FormFieldPayload;
+  form_blur: FormFieldPayload;
+  form_input: FormInputPayload;
+  form_validation: FormValidationPayload;
+  mousemove: MouseMovePayload;
+  network_request: NetworkRequestPayload;
+  performance_metric: PerformanceMetricPayload;
+  rrweb_snapshot: Record<string, any>;
+  rrweb_incremental: Record<string, any>;
+  identify: IdentifyPayload;
+  alias: AliasPayload;
+  events_suppressed: EventsSuppressedPayload;
+  timed_event: TimedEventPayload;
+}
+
+export type EventType = Extract<keyof EventPayloadMap, string>;
+
+// Added by the SDK to every event's data, next to super properties and page context
+export interface PageEventData {
+  pageTitle: string;
+  scrollPosition: { x: number; y: number };
+  documentHeight: number;
+}
+
+export interface SdkInfo {
+  name: string;
+  version: string;
+}
+
+export interface EventEnvelope {
+  eventId: string;
+  // Assigned once the event passes middleware and consent; middleware sees -1
+  seq: number;
+  schemaVersion: number;
+  clientTimestamp: number;
+  // Omitted when a privacy signal strips identifiers
+  anonymousId?: string;
+  userId?: string;
+  // Probability this event was kept; the backend up-weights it by 1 / sampleRate
+  sampleRate: number;
+}
+
+export interface BaseEvent extends EventEnvelope {
   type: EventType;
   timestamp: number;
   url: string;
+  routeTemplate?: string;
   referrer?: string;
   data?: Record<string, any>;
   userAgent?: string;
   screenSize?: ScreenSize;
 }
 
+// BaseEvent narrowed by its type, e.g. in middleware: `if (event.type === 'click')`
+export type TypedEvent = {
+  [T in EventType]: Omit<BaseEvent, 'type' | 'data'> & {
+    type: T;
+    data: EventPayloadMap[T] & PageEventData & Record<string, any>;
+  };
+}[EventType];
+
+// Events as built by trackers, before the SDK stamps the envelope
+export type UnstampedEvent = Omit<BaseEvent, keyof EventEnvelope>;
+
+export type UserTraits = Record<string, any>;
+
+// Registered by the app for the session and merged into every event's data
+export type SuperProperties = Record<string, any>;
+
+// Describes the current page; merged into event data after super properties
+export type PageContext = Record<string, any>;
+
 export interface SessionContext {
   url: string;
   referrer?: string;
@@ -71,6 +596,7 @@ export interface SessionContext {
   screenSize: ScreenSize;
   timezone: string;
   locale: string;
+  privacy?: PrivacyContext;
 }
 
 export interface UtmParameters {
@@ -83,6 +609,7 @@ export interface UtmParameters {
 
 export interface ReplayBatchRequest {
   sessionId: string;
+  sdk?: SdkInfo;
   chunkIndex: number;
   events: any[];
   timestamp: number;
@@ -91,25 +618,37 @@ export interface ReplayBatchRequest {
 export interface ReplayBatchResponse {
   success: boolean;
   chunkId?: string;
+  directives?: IngestDirectives;
 }
 
 export interface TrackRequest {
   sessionId: string;
+  sdk?: SdkInfo;
   event: BaseEvent;
 }
 
 export interface BatchRequest {
   sessionId: string;
+  sdk?: SdkInfo;
+  idempotencyKey?: string;
   events: BaseEvent[];
 }
 
 export interface SessionStartRequest {
   sessionId: string;
+  sdk?: SdkInfo;
   projectId?: string;
+  anonymousId?: string;
+  userId?: string;
+  sampling?: SamplingDecision;
+  superProperties?: SuperProperties;
+  pageContext?: PageContext;
   context: SessionContext;
 }
 
-export type ExitTriggerType = 'tab_close' | 'navigation_away' | 'idle_timeout';
+// 'sdk_destroyed' when the app tears the SDK down with destroy()
+export type ExitTriggerType =
+  'tab_close' | 'navigation_away' | 'idle_timeout' | 'sdk_destroyed';
 
 export interface ExitContext {
   lastPageUrl: string;
@@ -123,10 +662,23 @@ export interface ExitContext {
     description: string;
   }>;
   totalSessionDurationMs: number;
+  // Timers from time() that were never ended or cancelled
+  openTimers: OpenTimer[];
+}
+
+export interface OpenTimer extends TimerDurations {
+  name: string;
+}
+
+export interface TimedEventHandle {
+  /** Tracks a timed_event with the durations so far; only the first call counts */
+  end: (data?: Record<string, any>) => void;
+  cancel: () => void;
 }
 
 export interface SessionEndRequest {
   sessionId: string;
+  sdk?: SdkInfo;
   duration: number;
   pageViews: number;
   interactions: number;
@@ -137,17 +689,57 @@ export interface ApiResponse {
   success: boolean;
   eventId?: string;
   errors?: string[] | any[];
+  directives?: IngestDirectives;
 }
 
 export interface BatchResponse {
   success: boolean;
   processed?: number;
   failed?: number;
-  errors?: Array<{ index: number; error: string }>;
+  errors?: Array<{ index: number; error: string; retryable?: boolean }>;
+  directives?: IngestDirectives;
+  serverTime?: number;
+}
+
+export type DeadLetterReason = 'rejected' | 'dropped';
+
+export interface DeadLetterEntry {
+  event: BaseEvent;
+  sessionId: string;
+  reason: DeadLetterReason;
+  error: string;
+  attempts: number;
+  timestamp: number;
+}
+
+export interface DeliveryStats {
+  sentEvents: number;
+  retriedEvents: number;
+  rejectedEvents: number;
+  droppedEvents: number;
 }
 
 export interface SessionResponse {
   success: boolean;
   sessionId?: string;
   expiresAt?: number;
+  directives?: IngestDirectives;
+  serverTime?: number;
+}
+
+export type TransportRequestKind =
+  'track' | 'batch' | 'session/start' | 'session/end' | 'replay/batch';
+
+export interface Transport {
+  name: string;
+  send: (data: TrackRequest) => Promise<ApiResponse>;
+  sendBatch: (data: BatchRequest) => Promise<BatchResponse>;
+  startSession: (data: SessionStartRequest) => Promise<SessionResponse>;
+  endSession: (data: SessionEndRequest) => Promise<ApiResponse>;
+  sendReplay: (data: ReplayBatchRequest) => Promise<ReplayBatchResponse>;
+  // Synchronous hand-off during page unload; returns how many leading events were accepted
+  sendBatchOnUnload?: (data: BatchRequest) => number;
+  endSessionOnUnload?: (data: SessionEndRequest) => boolean;
+  getStats?: () => TransportStats;
+  fetchConfig?: (data: RemoteConfigRequest) => Promise<RemoteConfigResponse>;
 }
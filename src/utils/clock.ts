@@ -0,0 +1,111 @@
+import { canWriteToStorage } from './storage-access';
+
+const CLOCK_OFFSET_STORAGE_KEY = 'crow_clock_offset';
+// Older samples are replaced even by a noisier one to follow clock drift
+const MAX_SAMPLE_AGE_MS = 10 * 60 * 1000;
+
+export interface ClockSync {
+  /** Server-corrected epoch milliseconds, never decreasing within a page */
+  now: () => number;
+  recordServerTime: (
+    serverTime: number,
+    requestSentAt: number,
+    responseReceivedAt: number
+  ) => void;
+  /** Monotonic client reading to bracket a request with */
+  readMonotonicTime: () => number;
+  getOffsetMs: () => number;
+}
+
+interface OffsetSample {
+  sessionId: string;
+  offsetMs: number;
+  roundTripMs: number;
+  sampledAt: number;
+}
+
+// timeOrigin + now() keeps ticking steadily when the user changes the wall clock
+function readMonotonicEpochTime(): number {
+  if (
+    typeof performance !== 'undefined' &&
+    typeof performance.now === 'function' &&
+    performance.timeOrigin
+  ) {
+    return performance.timeOrigin + performance.now();
+  }
+  return Date.now();
+}
+
+function loadStoredSample(sessionId: string): OffsetSample | null {
+  try {
+    const rawValue = sessionStorage.getItem(CLOCK_OFFSET_STORAGE_KEY);
+    if (!rawValue) return null;
+
+    const sample = JSON.parse(rawValue) as OffsetSample;
+    return sample.sessionId === sessionId &&
+      Number.isFinite(sample.offsetMs) &&
+      Number.isFinite(sample.roundTripMs)
+      ? sample
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function storeSample(sample: OffsetSample): void {
+  if (!canWriteToStorage()) return;
+
+  try {
+    sessionStorage.setItem(CLOCK_OFFSET_STORAGE_KEY, JSON.stringify(sample));
+  } catch {
+    // Offset is re-estimated on the next response anyway
+  }
+}
+
+function isBetterSample(
+  candidate: OffsetSample,
+  current: OffsetSample | null
+): boolean {
+  if (!current) return true;
+  if (candidate.sampledAt - current.sampledAt > MAX_SAMPLE_AGE_MS) return true;
+  // The shortest round trip bounds the offset error most tightly
+  return candidate.roundTripMs <= current.roundTripMs;
+}
+
+export function createClockSync(sessionId: string): ClockSync {
+  let bestSample = loadStoredSample(sessionId);
+  let lastIssuedTimestamp = 0;
+
+  return {
+    now: () => {
+      const correctedTime =
+        readMonotonicEpochTime() + (bestSample?.offsetMs ?? 0);
+      lastIssuedTimestamp = Math.max(
+        lastIssuedTimestamp,
+        Math.round(correctedTime)
+      );
+      return lastIssuedTimestamp;
+    },
+
+    // NTP-style: assume the server stamped its time halfway through the round trip
+    recordServerTime: (serverTime, requestSentAt, responseReceivedAt) => {
+      const roundTripMs = responseReceivedAt - requestSentAt;
+      if (!Number.isFinite(serverTime) || roundTripMs < 0) return;
+
+      const sample: OffsetSample = {
+        sessionId,
+        offsetMs: serverTime - (requestSentAt + responseReceivedAt) / 2,
+        roundTripMs,
+        sampledAt: readMonotonicEpochTime(),
+      };
+      if (!isBetterSample(sample, bestSample)) return;
+
+      bestSample = sample;
+      storeSample(sample);
+    },
+
+    readMonotonicTime: readMonotonicEpochTime,
+
+    getOffsetMs: () => bestSample?.offsetMs ?? 0,
+  };
+}
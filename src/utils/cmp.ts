@@ -0,0 +1,190 @@
+import type {
+  ConsentCategory,
+  ConsentPlatform,
+  ConsentSource,
+  ConsentUpdate,
+} from '../types';
+
+// Every category also needs purpose 1 (store and access information on a device)
+const TCF_PURPOSES_BY_CATEGORY: Record<ConsentCategory, number[]> = {
+  analytics: [1, 8],
+  performance: [1, 8, 10],
+  replay: [1, 8, 10],
+  marketing: [1, 3, 4, 7],
+};
+
+const GPP_TCF_EU_SECTION_NAME = 'tcfeuv2';
+// US sections encode each opt-out as 0 = not applicable, 1 = opted out, 2 = did not opt out
+const GPP_OPTED_OUT = 1;
+const GPP_US_OPT_OUT_FIELDS = [
+  'SaleOptOut',
+  'SharingOptOut',
+  'TargetedAdvertisingOptOut',
+];
+
+interface TcfData {
+  gdprApplies?: boolean;
+  eventStatus?: 'tcloaded' | 'cmpuishown' | 'useractioncomplete';
+  listenerId?: number;
+  purpose?: { consents?: Record<string, boolean> };
+}
+
+type TcfApi = (
+  command: string,
+  version: number,
+  callback: (tcData: TcfData, success: boolean) => void,
+  parameter?: unknown
+) => void;
+
+interface GppPingData {
+  signalStatus?: 'ready' | 'not ready';
+  applicableSections?: number[];
+  parsedSections?: Record<string, unknown>;
+}
+
+interface GppEventData {
+  eventName: string;
+  listenerId: number;
+  pingData: GppPingData;
+}
+
+type GppApi = (
+  command: string,
+  callback?: (eventData: GppEventData, success: boolean) => void,
+  parameter?: unknown
+) => unknown;
+
+export type CmpConsentListener = (
+  update: ConsentUpdate,
+  source: ConsentSource
+) => void;
+
+const GRANT_ALL_CONSENT: ConsentUpdate = {
+  analytics: true,
+  performance: true,
+  replay: true,
+  marketing: true,
+};
+
+function getTcfApi(): TcfApi | null {
+  const tcfApi = (window as any).__tcfapi;
+  return typeof tcfApi === 'function' ? tcfApi : null;
+}
+
+function getGppApi(): GppApi | null {
+  const gppApi = (window as any).__gpp;
+  return typeof gppApi === 'function' ? gppApi : null;
+}
+
+function mapPurposeConsents(
+  hasPurposeConsent: (purposeId: number) => boolean
+): ConsentUpdate {
+  const update: ConsentUpdate = {};
+  for (const [category, purposeIds] of Object.entries(
+    TCF_PURPOSES_BY_CATEGORY
+  )) {
+    update[category as ConsentCategory] = purposeIds.every(hasPurposeConsent);
+  }
+  return update;
+}
+
+function mapTcfData(tcData: TcfData): ConsentUpdate {
+  if (tcData.gdprApplies === false) return GRANT_ALL_CONSENT;
+
+  const consents = tcData.purpose?.consents ?? {};
+  return mapPurposeConsents(purposeId => consents[purposeId] === true);
+}
+
+function mapGppPingData(pingData: GppPingData): ConsentUpdate {
+  const parsedSections = pingData.parsedSections ?? {};
+
+  const tcfEuSection = parsedSections[GPP_TCF_EU_SECTION_NAME] as
+    { PurposeConsents?: boolean[] } | undefined;
+  if (tcfEuSection) {
+    const purposeConsents = tcfEuSection.PurposeConsents ?? [];
+    return mapPurposeConsents(purposeId => purposeConsents[purposeId - 1]);
+  }
+
+  // US privacy laws are opt-out: only the marketing category can be refused
+  const hasOptedOut = Object.values(parsedSections).some(
+    section =>
+      typeof section === 'object' &&
+      section !== null &&
+      GPP_US_OPT_OUT_FIELDS.some(
+        field => (section as Record<string, unknown>)[field] === GPP_OPTED_OUT
+      )
+  );
+  return { ...GRANT_ALL_CONSENT, marketing: !hasOptedOut };
+}
+
+function connectTcf(tcfApi: TcfApi, onConsent: CmpConsentListener): () => void {
+  let listenerId: number | undefined;
+
+  try {
+    tcfApi('addEventListener', 2, (tcData, success) => {
+      if (!success) return;
+
+      listenerId = tcData.listenerId;
+      // The consent dialog is open; wait for the visitor's choice
+      if (tcData.eventStatus === 'cmpuishown') return;
+
+      onConsent(mapTcfData(tcData), 'tcf');
+    });
+  } catch (error) {
+    console.warn('[Crow] Failed to read TCF consent:', error);
+  }
+
+  return () => {
+    if (listenerId === undefined) return;
+
+    try {
+      tcfApi('removeEventListener', 2, () => {}, listenerId);
+    } catch {
+      // The CMP may already have been torn down
+    }
+  };
+}
+
+function connectGpp(gppApi: GppApi, onConsent: CmpConsentListener): () => void {
+  let listenerId: number | undefined;
+
+  try {
+    gppApi('addEventListener', (eventData, success) => {
+      if (!success) return;
+
+      listenerId = eventData.listenerId;
+      if (eventData.pingData?.signalStatus !== 'ready') return;
+
+      onConsent(mapGppPingData(eventData.pingData), 'gpp');
+    });
+  } catch (error) {
+    console.warn('[Crow] Failed to read GPP consent:', error);
+  }
+
+  return () => {
+    if (listenerId === undefined) return;
+
+    try {
+      gppApi('removeEventListener', () => {}, listenerId);
+    } catch {
+      // The CMP may already have been torn down
+    }
+  };
+}
+
+/**
+ * Subscribes to the page's consent management platform, if one is present.
+ * Returns a function that unsubscribes again.
+ */
+export function connectConsentPlatform(
+  platform: ConsentPlatform,
+  onConsent: CmpConsentListener
+): () => void {
+  const gppApi = platform === 'auto' || platform === 'gpp' ? getGppApi() : null;
+  if (gppApi) return connectGpp(gppApi, onConsent);
+
+  const tcfApi = platform === 'auto' || platform === 'tcf' ? getTcfApi() : null;
+  if (tcfApi) return connectTcf(tcfApi, onConsent);
+
+  return () => {};
+}
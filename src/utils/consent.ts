@@ -0,0 +1,69 @@
+import type {
+  ConsentCategory,
+  ConsentSource,
+  ConsentState,
+  ConsentUpdate,
+} from '../types';
+
+const PENDING_CONSENT_STATE: ConsentState = {
+  analytics: 'pending',
+  replay: 'pending',
+  performance: 'pending',
+  marketing: 'pending',
+};
+
+type ConsentChangeListener = (
+  consentState: ConsentState,
+  source: ConsentSource
+) => void;
+
+export interface ConsentManager {
+  getConsentState: () => ConsentState;
+  isGranted: (category: ConsentCategory) => boolean;
+  isPending: (category: ConsentCategory) => boolean;
+  /** Categories left out of the update keep their current status */
+  updateConsent: (update: ConsentUpdate, source: ConsentSource) => void;
+  onChange: (listener: ConsentChangeListener) => () => void;
+}
+
+function hasConsentStateChanged(
+  previous: ConsentState,
+  next: ConsentState
+): boolean {
+  return (Object.keys(next) as ConsentCategory[]).some(
+    category => previous[category] !== next[category]
+  );
+}
+
+export function createConsentManager(
+  defaults: Partial<ConsentState>
+): ConsentManager {
+  let consentState: ConsentState = { ...PENDING_CONSENT_STATE, ...defaults };
+  const listeners = new Set<ConsentChangeListener>();
+
+  return {
+    getConsentState: () => ({ ...consentState }),
+    isGranted: category => consentState[category] === 'granted',
+    isPending: category => consentState[category] === 'pending',
+
+    updateConsent: (update, source) => {
+      const nextState = { ...consentState };
+      for (const category of Object.keys(nextState) as ConsentCategory[]) {
+        const isGranted = update[category];
+        if (isGranted === undefined) continue;
+        nextState[category] = isGranted ? 'granted' : 'denied';
+      }
+      if (!hasConsentStateChanged(consentState, nextState)) return;
+
+      consentState = nextState;
+      for (const listener of listeners) {
+        listener({ ...consentState }, source);
+      }
+    },
+
+    onChange: listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
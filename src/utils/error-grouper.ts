@@ -0,0 +1,102 @@
+import type { EventType } from '../types';
+
+// Beyond this many distinct errors per window, new ones are sent ungrouped
+const MAX_ERROR_GROUPS = 100;
+
+export type RepeatedErrorListener = (
+  eventType: EventType,
+  data: Record<string, any>,
+  occurrences: number
+) => void;
+
+export interface ErrorGrouper {
+  /** False when the error repeats one already sent this window; the repeat is counted instead */
+  shouldSend: (eventType: EventType, data?: Record<string, any>) => boolean;
+  /** Reports the repeats counted so far without waiting for their windows to close */
+  flush: () => void;
+  destroy: () => void;
+}
+
+interface ErrorGroup {
+  eventType: EventType;
+  data: Record<string, any>;
+  repeats: number;
+  timerId: number;
+}
+
+function buildErrorFingerprint(
+  eventType: EventType,
+  data: Record<string, any>
+): string {
+  return JSON.stringify([
+    eventType,
+    data.type,
+    data.message,
+    data.filename,
+    data.lineno,
+    data.colno,
+    data.url,
+    data.method,
+    data.status,
+    data.error,
+  ]);
+}
+
+export function createErrorGrouper(
+  windowMs: number,
+  onRepeated: RepeatedErrorListener
+): ErrorGrouper {
+  const groups = new Map<string, ErrorGroup>();
+
+  function reportRepeats(group: ErrorGroup): void {
+    if (group.repeats === 0) return;
+
+    const repeats = group.repeats;
+    group.repeats = 0;
+    onRepeated(group.eventType, group.data, repeats);
+  }
+
+  // A group stays open while its error keeps recurring, so a loop is reported
+  // once plus one summary per window rather than once per window
+  function closeWindow(fingerprint: string): void {
+    const group = groups.get(fingerprint);
+    if (!group) return;
+
+    if (group.repeats === 0) {
+      groups.delete(fingerprint);
+      return;
+    }
+
+    reportRepeats(group);
+    group.timerId = window.setTimeout(closeWindow, windowMs, fingerprint);
+  }
+
+  return {
+    shouldSend: (eventType, data = {}) => {
+      const fingerprint = buildErrorFingerprint(eventType, data);
+      const group = groups.get(fingerprint);
+      if (group) {
+        group.repeats++;
+        return false;
+      }
+      if (groups.size >= MAX_ERROR_GROUPS) return true;
+
+      groups.set(fingerprint, {
+        eventType,
+        data,
+        repeats: 0,
+        timerId: window.setTimeout(closeWindow, windowMs, fingerprint),
+      });
+      return true;
+    },
+
+    flush: () => {
+      for (const group of groups.values()) reportRepeats(group);
+    },
+
+    destroy: () => {
+      for (const group of groups.values()) clearTimeout(group.timerId);
+      groups.clear();
+    },
+  };
+}
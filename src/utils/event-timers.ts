@@ -0,0 +1,88 @@
+import type { OpenTimer, TimerDurations } from '../types';
+
+export interface EventTimer {
+  /** Returns the final durations, or null if the timer was already stopped */
+  stop: () => TimerDurations | null;
+  cancel: () => void;
+}
+
+export interface EventTimerRegistry {
+  start: (name: string) => EventTimer;
+  getOpenTimers: () => OpenTimer[];
+  destroy: () => void;
+}
+
+interface RunningTimer {
+  name: string;
+  startedAt: number;
+  activeMs: number;
+  // null while the tab is hidden
+  activeSince: number | null;
+}
+
+function isPageVisible(): boolean {
+  return document.visibilityState !== 'hidden';
+}
+
+function measureTimer(timer: RunningTimer): TimerDurations {
+  const now = performance.now();
+  const currentActiveMs =
+    timer.activeSince === null ? 0 : now - timer.activeSince;
+  return {
+    wallDurationMs: Math.round(now - timer.startedAt),
+    activeDurationMs: Math.round(timer.activeMs + currentActiveMs),
+  };
+}
+
+/** Timers share one visibilitychange listener that pauses their active time */
+export function createEventTimerRegistry(): EventTimerRegistry {
+  const runningTimers = new Set<RunningTimer>();
+
+  const handleVisibilityChange = () => {
+    const now = performance.now();
+    const isVisible = isPageVisible();
+    for (const timer of runningTimers) {
+      if (isVisible) {
+        timer.activeSince ??= now;
+      } else if (timer.activeSince !== null) {
+        timer.activeMs += now - timer.activeSince;
+        timer.activeSince = null;
+      }
+    }
+  };
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+
+  return {
+    start: name => {
+      const now = performance.now();
+      const timer: RunningTimer = {
+        name,
+        startedAt: now,
+        activeMs: 0,
+        activeSince: isPageVisible() ? now : null,
+      };
+      runningTimers.add(timer);
+
+      return {
+        stop: () => {
+          if (!runningTimers.delete(timer)) return null;
+          return measureTimer(timer);
+        },
+        cancel: () => {
+          runningTimers.delete(timer);
+        },
+      };
+    },
+
+    getOpenTimers: () =>
+      Array.from(runningTimers, timer => ({
+        name: timer.name,
+        ...measureTimer(timer),
+      })),
+
+    destroy: () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      runningTimers.clear();
+    },
+  };
+}
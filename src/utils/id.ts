@@ -1,6 +1,13 @@
+import { canWriteToStorage } from './storage-access';
+
 const THIRTY_MINUTES_IN_MS = 30 * 60 * 1000;
 const SESSION_ID_STORAGE_KEY = 'crow_session_id';
 const SESSION_EXPIRY_STORAGE_KEY = 'crow_session_expiry';
+const SESSION_STARTED_AT_STORAGE_KEY = 'crow_session_started_at';
+const SESSION_CAMPAIGN_STORAGE_KEY = 'crow_session_campaign';
+const SESSION_SEQUENCE_STORAGE_KEY = 'crow_session_seq';
+const SESSION_ENDED_STORAGE_KEY = 'crow_session_ended';
+const SESSION_COUNTERS_STORAGE_KEY = 'crow_session_counters';
 
 export function generateUniqueIdWithPrefix(prefix: string): string {
   const timestampBase36 = Date.now().toString(36);
@@ -8,53 +15,259 @@ export function generateUniqueIdWithPrefix(prefix: string): string {
   return `${prefix}_${timestampBase36}${randomStringBase36}`;
 }
 
-function tryGetItemFromSessionStorage(key: string): string | null {
+export function generateEventId(): string {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+    return crypto.randomUUID();
+  }
+  return generateUniqueIdWithPrefix('evt');
+}
+
+// cyrb53: a fast 53-bit string hash, plenty to key batches without collisions
+export function hashStringToHex(value: string): string {
+  let h1 = 3735928559;
+  let h2 = 1103547991;
+  for (let i = 0; i < value.length; i++) {
+    const charCode = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ charCode, 2654435761);
+    h2 = Math.imul(h2 ^ charCode, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+// Derived from the event IDs so every retry of the same batch reuses the key
+export function createBatchIdempotencyKey(
+  events: { eventId: string }[]
+): string {
+  return `batch_${hashStringToHex(events.map(event => event.eventId).join(','))}`;
+}
+
+/**
+ * 'tab' keeps session state in sessionStorage; 'shared' uses localStorage so
+ * every tab of the origin joins the same session.
+ */
+export type SessionStorageScope = 'tab' | 'shared';
+
+export type SessionCounterName = 'pageViews' | 'interactions';
+
+export type SessionCounters = Record<SessionCounterName, number>;
+
+function getScopedStorage(scope: SessionStorageScope): Storage {
+  return scope === 'shared' ? localStorage : sessionStorage;
+}
+
+function tryGetStoredItem(
+  scope: SessionStorageScope,
+  key: string
+): string | null {
   try {
-    return sessionStorage.getItem(key);
+    return getScopedStorage(scope).getItem(key);
   } catch {
     return null;
   }
 }
 
-function trySetItemInSessionStorage(key: string, value: string): void {
+function trySetStoredItem(
+  scope: SessionStorageScope,
+  key: string,
+  value: string
+): void {
+  if (!canWriteToStorage()) return;
+
   try {
-    sessionStorage.setItem(key, value);
+    getScopedStorage(scope).setItem(key, value);
   } catch {
-    return;
+    // Storage blocked or full; the in-memory state still applies
   }
 }
 
-function isSessionStillValid(expiryTimestamp: string | null): boolean {
-  if (!expiryTimestamp) return false;
-  return Date.now() < Number.parseInt(expiryTimestamp);
+function tryRemoveStoredItem(scope: SessionStorageScope, key: string): void {
+  if (!canWriteToStorage()) return;
+
+  try {
+    getScopedStorage(scope).removeItem(key);
+  } catch {
+    // Storage blocked; nothing stored to remove
+  }
+}
+
+export interface StoredSession {
+  sessionId: string;
+  startedAt: number;
+  expiresAt: number;
+  campaign: string | null;
+}
+
+function parseStoredTimestamp(value: string | null): number | null {
+  if (!value) return null;
+
+  const timestamp = Number.parseInt(value);
+  return Number.isNaN(timestamp) ? null : timestamp;
+}
+
+/** Returns the last stored session even when expired; the caller decides whether to reuse it */
+export function readStoredSession(
+  scope: SessionStorageScope
+): StoredSession | null {
+  const sessionId = tryGetStoredItem(scope, SESSION_ID_STORAGE_KEY);
+  const expiresAt = parseStoredTimestamp(
+    tryGetStoredItem(scope, SESSION_EXPIRY_STORAGE_KEY)
+  );
+  if (!sessionId || expiresAt === null) return null;
+
+  return {
+    sessionId,
+    expiresAt,
+    // Sessions stored before the start time was tracked count from now
+    startedAt:
+      parseStoredTimestamp(
+        tryGetStoredItem(scope, SESSION_STARTED_AT_STORAGE_KEY)
+      ) ?? Date.now(),
+    campaign: tryGetStoredItem(scope, SESSION_CAMPAIGN_STORAGE_KEY),
+  };
 }
 
-function calculateSessionExpiryTimestamp(): string {
-  return (Date.now() + THIRTY_MINUTES_IN_MS).toString();
+export function createStoredSession(
+  campaign: string | null,
+  scope: SessionStorageScope,
+  inactivityTimeoutMs = THIRTY_MINUTES_IN_MS
+): StoredSession {
+  const now = Date.now();
+  const session: StoredSession = {
+    sessionId: generateUniqueIdWithPrefix('sess'),
+    startedAt: now,
+    expiresAt: now + inactivityTimeoutMs,
+    campaign,
+  };
+  writeStoredSession(session, scope);
+  return session;
 }
 
-export function getOrCreateSessionId(): string {
-  const existingSessionId = tryGetItemFromSessionStorage(
-    SESSION_ID_STORAGE_KEY
+export function writeStoredSession(
+  session: StoredSession,
+  scope: SessionStorageScope
+): void {
+  trySetStoredItem(scope, SESSION_ID_STORAGE_KEY, session.sessionId);
+  trySetStoredItem(
+    scope,
+    SESSION_EXPIRY_STORAGE_KEY,
+    session.expiresAt.toString()
+  );
+  trySetStoredItem(
+    scope,
+    SESSION_STARTED_AT_STORAGE_KEY,
+    session.startedAt.toString()
   );
-  const sessionExpiry = tryGetItemFromSessionStorage(
-    SESSION_EXPIRY_STORAGE_KEY
+  if (session.campaign) {
+    trySetStoredItem(scope, SESSION_CAMPAIGN_STORAGE_KEY, session.campaign);
+  } else {
+    tryRemoveStoredItem(scope, SESSION_CAMPAIGN_STORAGE_KEY);
+  }
+}
+
+export function extendCurrentSessionExpiry(
+  scope: SessionStorageScope,
+  inactivityTimeoutMs = THIRTY_MINUTES_IN_MS
+): number {
+  const newExpiryTimestamp = Date.now() + inactivityTimeoutMs;
+  trySetStoredItem(
+    scope,
+    SESSION_EXPIRY_STORAGE_KEY,
+    newExpiryTimestamp.toString()
   );
+  return newExpiryTimestamp;
+}
 
-  if (existingSessionId && isSessionStillValid(sessionExpiry)) {
-    return existingSessionId;
+/** Returns false when another tab already ended (and reported) this session */
+export function claimSessionEnd(
+  sessionId: string,
+  scope: SessionStorageScope
+): boolean {
+  if (scope === 'tab') return true;
+  if (tryGetStoredItem(scope, SESSION_ENDED_STORAGE_KEY) === sessionId) {
+    return false;
   }
 
-  const newSessionId = generateUniqueIdWithPrefix('sess');
-  const newExpiryTimestamp = calculateSessionExpiryTimestamp();
+  trySetStoredItem(scope, SESSION_ENDED_STORAGE_KEY, sessionId);
+  return true;
+}
 
-  trySetItemInSessionStorage(SESSION_ID_STORAGE_KEY, newSessionId);
-  trySetItemInSessionStorage(SESSION_EXPIRY_STORAGE_KEY, newExpiryTimestamp);
+// A page that resumes the session and reports its start again may end it too;
+// otherwise the first page left would keep the claim for the whole session
+export function releaseSessionEndClaim(
+  sessionId: string,
+  scope: SessionStorageScope
+): void {
+  if (scope === 'tab') return;
+  if (tryGetStoredItem(scope, SESSION_ENDED_STORAGE_KEY) !== sessionId) return;
 
-  return newSessionId;
+  tryRemoveStoredItem(scope, SESSION_ENDED_STORAGE_KEY);
 }
 
-export function extendCurrentSessionExpiry(): void {
-  const newExpiryTimestamp = calculateSessionExpiryTimestamp();
-  trySetItemInSessionStorage(SESSION_EXPIRY_STORAGE_KEY, newExpiryTimestamp);
+// Stored as "<sessionId>:<pageViews>:<interactions>", reset by a new session
+export function readSessionCounters(
+  sessionId: string,
+  scope: SessionStorageScope
+): SessionCounters {
+  const storedValue = tryGetStoredItem(scope, SESSION_COUNTERS_STORAGE_KEY);
+  const [storedSessionId, pageViews, interactions] =
+    storedValue?.split(':') ?? [];
+  if (storedSessionId !== sessionId) return { pageViews: 0, interactions: 0 };
+
+  return {
+    pageViews: Number.parseInt(pageViews) || 0,
+    interactions: Number.parseInt(interactions) || 0,
+  };
+}
+
+export function incrementSessionCounter(
+  sessionId: string,
+  counterName: SessionCounterName,
+  scope: SessionStorageScope
+): SessionCounters {
+  const counters = readSessionCounters(sessionId, scope);
+  counters[counterName]++;
+  trySetStoredItem(
+    scope,
+    SESSION_COUNTERS_STORAGE_KEY,
+    `${sessionId}:${counters.pageViews}:${counters.interactions}`
+  );
+  return counters;
+}
+
+// Mirrors the stored counter for when storage is unavailable
+let lastIssuedSequence: { sessionId: string; value: number } | null = null;
+
+function readStoredSequence(
+  sessionId: string,
+  scope: SessionStorageScope
+): number {
+  const storedValue = tryGetStoredItem(scope, SESSION_SEQUENCE_STORAGE_KEY);
+  const [storedSessionId, storedSequence] = storedValue?.split(':') ?? [];
+  if (storedSessionId !== sessionId) return -1;
+
+  const parsedSequence = Number.parseInt(storedSequence);
+  return Number.isNaN(parsedSequence) ? -1 : parsedSequence;
+}
+
+// Stored as "<sessionId>:<seq>" so a new session restarts the sequence at 0
+export function getNextSessionSequenceNumber(
+  sessionId: string,
+  scope: SessionStorageScope = 'tab'
+): number {
+  const inMemorySequence =
+    lastIssuedSequence?.sessionId === sessionId ? lastIssuedSequence.value : -1;
+  const nextSequence =
+    Math.max(inMemorySequence, readStoredSequence(sessionId, scope)) + 1;
+
+  lastIssuedSequence = { sessionId, value: nextSequence };
+  trySetStoredItem(
+    scope,
+    SESSION_SEQUENCE_STORAGE_KEY,
+    `${sessionId}:${nextSequence}`
+  );
+  return nextSequence;
 }
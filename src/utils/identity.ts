@@ -0,0 +1,128 @@
+import { generateUniqueIdWithPrefix } from './id';
+import { canWriteToStorage } from './storage-access';
+
+const ANONYMOUS_ID_STORAGE_KEY = 'crow_anonymous_id';
+const USER_ID_STORAGE_KEY = 'crow_user_id';
+
+export interface Identity {
+  anonymousId: string;
+  userId: string | null;
+}
+
+export interface IdentityStore {
+  getIdentity: () => Identity;
+  setUserId: (userId: string) => void;
+  /** Writes the in-memory identity to storage once storage is allowed */
+  persist: () => void;
+  /** Forgets the user and rotates the anonymous ID, e.g. on logout */
+  reset: () => Identity;
+  /** Removes the stored IDs, e.g. when consent is withdrawn; this page keeps them in memory */
+  clearStoredIdentity: () => void;
+}
+
+function generateAnonymousId(): string {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+    return crypto.randomUUID();
+  }
+  return generateUniqueIdWithPrefix('anon');
+}
+
+function tryGetStoredItem(key: string): string | null {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+function trySetStoredItem(key: string, value: string | null): boolean {
+  if (!canWriteToStorage()) return false;
+
+  try {
+    if (value === null) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, value);
+    }
+    return true;
+  } catch {
+    // Storage blocked; the identity only lasts for this page
+    return false;
+  }
+}
+
+// Removing stores nothing, so it is allowed even without storage consent
+function tryRemoveStoredItems(keys: string[]): void {
+  try {
+    for (const key of keys) {
+      localStorage.removeItem(key);
+    }
+  } catch {
+    // Storage unavailable; nothing was stored either
+  }
+}
+
+/**
+ * Identity lives in localStorage so it outlives sessions and is shared by all
+ * tabs. Reads go through storage each time to pick up other tabs' changes.
+ */
+export function createIdentityStore(): IdentityStore {
+  let fallbackIdentity: Identity = {
+    anonymousId: tryGetStoredItem(ANONYMOUS_ID_STORAGE_KEY) ?? '',
+    userId: tryGetStoredItem(USER_ID_STORAGE_KEY),
+  };
+  // Set after a reset() that storage didn't take: the old stored identity must
+  // not be read back until the new one is persisted
+  let isInMemoryIdentityCurrent = false;
+  if (!fallbackIdentity.anonymousId) {
+    fallbackIdentity.anonymousId = generateAnonymousId();
+    trySetStoredItem(ANONYMOUS_ID_STORAGE_KEY, fallbackIdentity.anonymousId);
+  }
+
+  function getIdentity(): Identity {
+    if (isInMemoryIdentityCurrent) return { ...fallbackIdentity };
+
+    const storedAnonymousId = tryGetStoredItem(ANONYMOUS_ID_STORAGE_KEY);
+    if (!storedAnonymousId) return { ...fallbackIdentity };
+
+    fallbackIdentity = {
+      anonymousId: storedAnonymousId,
+      userId: tryGetStoredItem(USER_ID_STORAGE_KEY),
+    };
+    return { ...fallbackIdentity };
+  }
+
+  return {
+    getIdentity,
+
+    setUserId: userId => {
+      fallbackIdentity = { ...getIdentity(), userId };
+      trySetStoredItem(USER_ID_STORAGE_KEY, userId);
+    },
+
+    persist: () => {
+      const isPersisted =
+        trySetStoredItem(
+          ANONYMOUS_ID_STORAGE_KEY,
+          fallbackIdentity.anonymousId
+        ) && trySetStoredItem(USER_ID_STORAGE_KEY, fallbackIdentity.userId);
+      if (isPersisted) isInMemoryIdentityCurrent = false;
+    },
+
+    reset: () => {
+      fallbackIdentity = { anonymousId: generateAnonymousId(), userId: null };
+      tryRemoveStoredItems([ANONYMOUS_ID_STORAGE_KEY, USER_ID_STORAGE_KEY]);
+      isInMemoryIdentityCurrent = !trySetStoredItem(
+        ANONYMOUS_ID_STORAGE_KEY,
+        fallbackIdentity.anonymousId
+      );
+      return { ...fallbackIdentity };
+    },
+
+    clearStoredIdentity: () => {
+      fallbackIdentity = getIdentity();
+      tryRemoveStoredItems([ANONYMOUS_ID_STORAGE_KEY, USER_ID_STORAGE_KEY]);
+      isInMemoryIdentityCurrent = true;
+    },
+  };
+}
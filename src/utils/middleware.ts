@@ -0,0 +1,144 @@
+import type {
+  Middleware,
+  MiddlewareConfig,
+  MiddlewarePayloads,
+  MiddlewareStage,
+} from '../types';
+import { isPromiseLike, withTimeout } from './async';
+
+type MaybePromise<T> = T | Promise<T>;
+
+type MiddlewareChains = {
+  [S in MiddlewareStage]: Middleware<MiddlewarePayloads[S]>[];
+};
+
+export interface MiddlewarePipeline {
+  /** Appends to the stage's chain; returns a function that removes it again */
+  add: <S extends MiddlewareStage>(
+    stage: S,
+    middleware: Middleware<MiddlewarePayloads[S]>
+  ) => () => void;
+  /**
+   * Resolves to the final payload, or null when a middleware dropped it. Stays
+   * synchronous until a middleware returns a promise, so ordering is kept.
+   */
+  run: <S extends MiddlewareStage>(
+    stage: S,
+    payload: MiddlewarePayloads[S]
+  ) => MaybePromise<MiddlewarePayloads[S] | null>;
+  /** For page unload, where nothing can be awaited: async middleware is skipped */
+  runSync: <S extends MiddlewareStage>(
+    stage: S,
+    payload: MiddlewarePayloads[S]
+  ) => MiddlewarePayloads[S] | null;
+}
+
+export function whenSettled<T>(
+  value: MaybePromise<T>,
+  callback: (resolved: T) => void
+): void {
+  if (isPromiseLike<T>(value)) {
+    value.then(callback);
+  } else {
+    callback(value);
+  }
+}
+
+function reportMiddlewareFailure(stage: MiddlewareStage, error: unknown): void {
+  // A failing middleware is skipped rather than losing the payload
+  console.error(`[Crow] ${stage} middleware failed, skipping it:`, error);
+}
+
+export function createMiddlewarePipeline(
+  initialChains: MiddlewareConfig,
+  timeoutMs: number
+): MiddlewarePipeline {
+  const chains: MiddlewareChains = {
+    event: [...(initialChains.event ?? [])],
+    sessionStart: [...(initialChains.sessionStart ?? [])],
+    sessionEnd: [...(initialChains.sessionEnd ?? [])],
+    replay: [...(initialChains.replay ?? [])],
+  };
+
+  function runChain<T>(
+    stage: MiddlewareStage,
+    chain: Middleware<T>[],
+    startIndex: number,
+    payload: T,
+    allowAsync: boolean
+  ): MaybePromise<T | null> {
+    let current = payload;
+    for (let index = startIndex; index < chain.length; index++) {
+      let result: ReturnType<Middleware<T>>;
+      try {
+        result = chain[index](current);
+      } catch (error) {
+        reportMiddlewareFailure(stage, error);
+        continue;
+      }
+
+      if (isPromiseLike<T | null | void>(result)) {
+        if (!allowAsync) {
+          console.warn(
+            `[Crow] Async ${stage} middleware skipped during page unload`
+          );
+          continue;
+        }
+
+        const payloadBefore = current;
+        return withTimeout(result, timeoutMs).then(
+          resolved =>
+            resolved === null
+              ? null
+              : runChain(
+                  stage,
+                  chain,
+                  index + 1,
+                  resolved ?? payloadBefore,
+                  true
+                ),
+          error => {
+            reportMiddlewareFailure(stage, error);
+            return runChain(stage, chain, index + 1, payloadBefore, true);
+          }
+        );
+      }
+
+      if (result === null) return null;
+      // Returning nothing keeps the payload, so middleware can mutate in place
+      current = result ?? current;
+    }
+    return current;
+  }
+
+  return {
+    add: (stage, middleware) => {
+      const chain = chains[stage] as Middleware<
+        MiddlewarePayloads[typeof stage]
+      >[];
+      chain.push(middleware);
+      return () => {
+        const index = chain.indexOf(middleware);
+        if (index !== -1) chain.splice(index, 1);
+      };
+    },
+
+    run: (stage, payload) =>
+      runChain(
+        stage,
+        chains[stage] as Middleware<typeof payload>[],
+        0,
+        payload,
+        true
+      ),
+
+    runSync: (stage, payload) =>
+      runChain(
+        stage,
+        chains[stage] as Middleware<typeof payload>[],
+        0,
+        payload,
+        false
+      ) as typeof payload | null,
+  };
+}
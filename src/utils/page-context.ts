@@ -0,0 +1,63 @@
+import type { PageContext } from '../types';
+
+const META_NAME_PREFIX = 'crow:';
+const BODY_ATTRIBUTE_PREFIX = 'data-crow-page-';
+const NAME_SEPARATOR_PATTERN = /[-_:]+([\da-z])/gi;
+
+export interface PageContextStore {
+  /** Tags on the current document plus values set for the current page */
+  getPageContext: () => PageContext;
+  /** Cleared again once the page URL changes, e.g. on SPA navigation */
+  setPageContext: (context: PageContext) => void;
+}
+
+// "store-region" and "store_region" both become "storeRegion"
+function toCamelCase(name: string): string {
+  return name.replace(NAME_SEPARATOR_PATTERN, (_match, nextChar: string) =>
+    nextChar.toUpperCase()
+  );
+}
+
+// <meta name="crow:page-type" content="product"> and
+// <body data-crow-page-store-region="eu">; body attributes win on conflicts
+function readDocumentPageContext(): PageContext {
+  const context: PageContext = {};
+
+  const metaTags = document.querySelectorAll<HTMLMetaElement>(
+    `meta[name^="${META_NAME_PREFIX}"]`
+  );
+  for (const metaTag of metaTags) {
+    const name = toCamelCase(metaTag.name.slice(META_NAME_PREFIX.length));
+    if (name) context[name] = metaTag.content;
+  }
+
+  for (const attribute of document.body?.attributes ?? []) {
+    if (!attribute.name.startsWith(BODY_ATTRIBUTE_PREFIX)) continue;
+
+    const name = toCamelCase(
+      attribute.name.slice(BODY_ATTRIBUTE_PREFIX.length)
+    );
+    if (name) context[name] = attribute.value;
+  }
+
+  return context;
+}
+
+/** The document is read on every call, so tags a SPA swaps in are picked up */
+export function createPageContextStore(): PageContextStore {
+  let manualContext: PageContext = {};
+  let manualContextUrl = '';
+
+  return {
+    getPageContext: () => {
+      if (manualContextUrl !== window.location.href) manualContext = {};
+      return { ...readDocumentPageContext(), ...manualContext };
+    },
+
+    setPageContext: context => {
+      if (manualContextUrl !== window.location.href) manualContext = {};
+      manualContext = { ...manualContext, ...context };
+      manualContextUrl = window.location.href;
+    },
+  };
+}
@@ -0,0 +1,92 @@
+export type JsonSchemaType =
+  'string' | 'number' | 'boolean' | 'null' | 'object' | 'array';
+
+/** The subset of JSON Schema that scripts/generate-event-schema.mjs emits */
+export interface JsonSchema {
+  type?: JsonSchemaType;
+  const?: string | number | boolean;
+  enum?: (string | number | boolean)[];
+  anyOf?: JsonSchema[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+}
+
+function getJsonType(value: unknown): JsonSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value as JsonSchemaType;
+}
+
+function validateObject(
+  schema: JsonSchema,
+  value: Record<string, unknown>,
+  path: string
+): string[] {
+  const problems: string[] = [];
+  for (const name of schema.required ?? []) {
+    if (value[name] === undefined) problems.push(`${path}.${name} is required`);
+  }
+
+  for (const [name, nestedValue] of Object.entries(value)) {
+    // Dropped by JSON.stringify, so never sent
+    if (nestedValue === undefined) continue;
+
+    const nestedPath = `${path}.${name}`;
+    const propertySchema =
+      schema.properties?.[name] ??
+      (typeof schema.additionalProperties === 'object'
+        ? schema.additionalProperties
+        : undefined);
+    if (propertySchema) {
+      problems.push(
+        ...validateAgainstSchema(propertySchema, nestedValue, nestedPath)
+      );
+    } else if (schema.additionalProperties === false) {
+      problems.push(`${nestedPath} is not part of the payload`);
+    }
+  }
+  return problems;
+}
+
+/** Returns a readable description of every mismatch; empty when the value fits */
+export function validateAgainstSchema(
+  schema: JsonSchema,
+  value: unknown,
+  path: string
+): string[] {
+  if (schema.anyOf) {
+    const memberProblems = schema.anyOf.map(member =>
+      validateAgainstSchema(member, value, path)
+    );
+    if (memberProblems.some(problems => problems.length === 0)) return [];
+    // Reporting the closest member beats listing every alternative
+    return memberProblems.reduce((closest, problems) =>
+      problems.length < closest.length ? problems : closest
+    );
+  }
+
+  if (schema.const !== undefined && value !== schema.const) {
+    return [`${path} must be ${JSON.stringify(schema.const)}`];
+  }
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    return [`${path} must be one of ${schema.enum.join(', ')}`];
+  }
+
+  const actualType = getJsonType(value);
+  if (schema.type && schema.type !== actualType) {
+    return [`${path} must be a ${schema.type}, got ${actualType}`];
+  }
+
+  if (actualType === 'array' && schema.items) {
+    const itemSchema = schema.items;
+    return (value as unknown[]).flatMap((item, index) =>
+      validateAgainstSchema(itemSchema, item, `${path}[${index}]`)
+    );
+  }
+  if (actualType === 'object' && schema.type === 'object') {
+    return validateObject(schema, value as Record<string, unknown>, path);
+  }
+  return [];
+}
@@ -0,0 +1,358 @@
+import type { PersistenceConfig } from '../types';
+
+const DATABASE_NAME = 'crow_sdk';
+const DATABASE_VERSION = 1;
+const OBJECT_STORE_NAME = 'pending_records';
+const NAMESPACE_INDEX_NAME = 'namespace';
+const LOCAL_STORAGE_KEY_PREFIX = 'crow_pending_';
+
+export type StorageBackendKind = 'indexeddb' | 'localstorage' | 'memory';
+
+export interface PersistedRecord<T> {
+  id: string;
+  sessionId: string;
+  createdAt: number;
+  // The page that wrote the record and is still sending it
+  ownerId?: string;
+  payload: T;
+}
+
+export interface RecordOwnership {
+  ownerId: string;
+  /** Pages that are still open, e.g. other tabs */
+  getActiveOwnerIds: () => Set<string>;
+}
+
+export interface PersistentStore<T> {
+  saveRecords: (records: PersistedRecord<T>[]) => Promise<void>;
+  removeRecords: (ids: string[]) => Promise<void>;
+  loadRecords: () => Promise<PersistedRecord<T>[]>;
+  getBackendKind: () => Promise<StorageBackendKind>;
+}
+
+type StoredRecord = PersistedRecord<unknown> & { namespace: string };
+
+interface StorageBackend {
+  kind: StorageBackendKind;
+  getAll: (namespace: string) => Promise<StoredRecord[]>;
+  /** Resolves to how many records the namespace holds afterwards */
+  put: (records: StoredRecord[]) => Promise<number>;
+  delete: (ids: string[], namespace: string) => Promise<void>;
+}
+
+let sharedDatabasePromise: Promise<IDBDatabase> | null = null;
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function promisifyTransaction(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      if (database.objectStoreNames.contains(OBJECT_STORE_NAME)) return;
+
+      const objectStore = database.createObjectStore(OBJECT_STORE_NAME, {
+        keyPath: 'id',
+      });
+      objectStore.createIndex(NAMESPACE_INDEX_NAME, 'namespace');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB open blocked'));
+  });
+}
+
+function getSharedDatabase(): Promise<IDBDatabase> {
+  if (!sharedDatabasePromise) {
+    sharedDatabasePromise = openDatabase().catch(error => {
+      sharedDatabasePromise = null;
+      throw error;
+    });
+  }
+  return sharedDatabasePromise;
+}
+
+function createIndexedDbBackend(database: IDBDatabase): StorageBackend {
+  return {
+    kind: 'indexeddb',
+
+    getAll: async namespace => {
+      const transaction = database.transaction(OBJECT_STORE_NAME, 'readonly');
+      const index = transaction
+        .objectStore(OBJECT_STORE_NAME)
+        .index(NAMESPACE_INDEX_NAME);
+      return promisifyRequest(index.getAll(namespace));
+    },
+
+    put: async records => {
+      const transaction = database.transaction(OBJECT_STORE_NAME, 'readwrite');
+      const objectStore = transaction.objectStore(OBJECT_STORE_NAME);
+      for (const record of records) {
+        objectStore.put(record);
+      }
+      // Counted by the index, without reading the records back
+      const countRequest = objectStore
+        .index(NAMESPACE_INDEX_NAME)
+        .count(records[0].namespace);
+      await promisifyTransaction(transaction);
+      return countRequest.result;
+    },
+
+    delete: async ids => {
+      const transaction = database.transaction(OBJECT_STORE_NAME, 'readwrite');
+      const objectStore = transaction.objectStore(OBJECT_STORE_NAME);
+      for (const id of ids) {
+        objectStore.delete(id);
+      }
+      await promisifyTransaction(transaction);
+    },
+  };
+}
+
+function readLocalStorageRecords(namespace: string): StoredRecord[] {
+  try {
+    const rawValue = localStorage.getItem(LOCAL_STORAGE_KEY_PREFIX + namespace);
+    return rawValue ? (JSON.parse(rawValue) as StoredRecord[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeLocalStorageRecords(
+  namespace: string,
+  records: StoredRecord[]
+): void {
+  const key = LOCAL_STORAGE_KEY_PREFIX + namespace;
+  if (records.length === 0) {
+    localStorage.removeItem(key);
+    return;
+  }
+  localStorage.setItem(key, JSON.stringify(records));
+}
+
+function createLocalStorageBackend(): StorageBackend {
+  return {
+    kind: 'localstorage',
+
+    getAll: async namespace => readLocalStorageRecords(namespace),
+
+    put: async records => {
+      const namespace = records[0]?.namespace;
+      if (!namespace) return 0;
+
+      const incomingIds = new Set(records.map(record => record.id));
+      const existingRecords = readLocalStorageRecords(namespace).filter(
+        record => !incomingIds.has(record.id)
+      );
+      const updatedRecords = [...existingRecords, ...records];
+      writeLocalStorageRecords(namespace, updatedRecords);
+      return updatedRecords.length;
+    },
+
+    delete: async (ids, namespace) => {
+      const idsToDelete = new Set(ids);
+      const remainingRecords = readLocalStorageRecords(namespace).filter(
+        record => !idsToDelete.has(record.id)
+      );
+      writeLocalStorageRecords(namespace, remainingRecords);
+    },
+  };
+}
+
+function createMemoryBackend(): StorageBackend {
+  const recordsByNamespace = new Map<string, Map<string, StoredRecord>>();
+
+  function getNamespaceRecords(namespace: string): Map<string, StoredRecord> {
+    let records = recordsByNamespace.get(namespace);
+    if (!records) {
+      records = new Map();
+      recordsByNamespace.set(namespace, records);
+    }
+    return records;
+  }
+
+  return {
+    kind: 'memory',
+
+    getAll: async namespace =>
+      Array.from(getNamespaceRecords(namespace).values()),
+
+    put: async records => {
+      if (records.length === 0) return 0;
+
+      const namespaceRecords = getNamespaceRecords(records[0].namespace);
+      for (const record of records) {
+        namespaceRecords.set(record.id, record);
+      }
+      return namespaceRecords.size;
+    },
+
+    delete: async (ids, namespace) => {
+      const namespaceRecords = getNamespaceRecords(namespace);
+      for (const id of ids) {
+        namespaceRecords.delete(id);
+      }
+    },
+  };
+}
+
+function isLocalStorageAvailable(): boolean {
+  try {
+    const probeKey = `${LOCAL_STORAGE_KEY_PREFIX}probe`;
+    localStorage.setItem(probeKey, '1');
+    localStorage.removeItem(probeKey);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function resolveStorageBackend(): Promise<StorageBackend> {
+  if (typeof indexedDB !== 'undefined') {
+    try {
+      return createIndexedDbBackend(await getSharedDatabase());
+    } catch {
+      // Private browsing modes may refuse IndexedDB; fall through
+    }
+  }
+
+  if (isLocalStorageAvailable()) return createLocalStorageBackend();
+
+  return createMemoryBackend();
+}
+
+/**
+ * Picks the records a starting page should send: those whose page has closed.
+ * Records of open pages are left to them; without ownership information only
+ * records older than this page are taken.
+ */
+export function selectOrphanedRecords<R extends PersistedRecord<unknown>>(
+  records: R[],
+  ownership: RecordOwnership | null,
+  pageCreatedAt: number
+): R[] {
+  const activeOwnerIds = ownership?.getActiveOwnerIds();
+  return records.filter(record => {
+    if (!ownership || !activeOwnerIds || !record.ownerId) {
+      return record.createdAt < pageCreatedAt;
+    }
+    return (
+      record.ownerId !== ownership.ownerId &&
+      !activeOwnerIds.has(record.ownerId)
+    );
+  });
+}
+
+function sortByCreationTime(records: StoredRecord[]): StoredRecord[] {
+  return [...records].sort((a, b) => a.createdAt - b.createdAt);
+}
+
+async function deleteExpiredRecords(
+  backend: StorageBackend,
+  namespace: string,
+  records: StoredRecord[],
+  ttlMs: number
+): Promise<StoredRecord[]> {
+  const cutoff = Date.now() - ttlMs;
+  const expiredIds = records
+    .filter(record => record.createdAt < cutoff)
+    .map(record => record.id);
+
+  if (expiredIds.length > 0) {
+    await backend.delete(expiredIds, namespace);
+  }
+
+  return records.filter(record => record.createdAt >= cutoff);
+}
+
+// Only runs once a save reports the namespace over capacity
+async function evictOldestRecordsOverCapacity(
+  backend: StorageBackend,
+  namespace: string,
+  maxRecords: number
+): Promise<void> {
+  const records = await backend.getAll(namespace);
+  if (records.length <= maxRecords) return;
+
+  const overflowIds = sortByCreationTime(records)
+    .slice(0, records.length - maxRecords)
+    .map(record => record.id);
+  await backend.delete(overflowIds, namespace);
+}
+
+export function createPersistentStore<T>(
+  namespace: string,
+  config: PersistenceConfig
+): PersistentStore<T> {
+  const backendPromise = config.enabled
+    ? resolveStorageBackend()
+    : Promise.resolve(createMemoryBackend());
+
+  return {
+    saveRecords: async records => {
+      if (records.length === 0) return;
+
+      try {
+        const backend = await backendPromise;
+        const recordCount = await backend.put(
+          records.map(record => ({ ...record, namespace }))
+        );
+        if (recordCount > config.maxRecords) {
+          await evictOldestRecordsOverCapacity(
+            backend,
+            namespace,
+            config.maxRecords
+          );
+        }
+      } catch (error) {
+        console.error('[Crow] Failed to persist pending records:', error);
+      }
+    },
+
+    removeRecords: async ids => {
+      if (ids.length === 0) return;
+
+      try {
+        const backend = await backendPromise;
+        await backend.delete(ids, namespace);
+      } catch (error) {
+        console.error('[Crow] Failed to remove persisted records:', error);
+      }
+    },
+
+    loadRecords: async () => {
+      try {
+        const backend = await backendPromise;
+        const records = await backend.getAll(namespace);
+        const liveRecords = await deleteExpiredRecords(
+          backend,
+          namespace,
+          records,
+          config.ttlMs
+        );
+        return sortByCreationTime(liveRecords).map(
+          ({ namespace: _namespace, ...record }) => record as PersistedRecord<T>
+        );
+      } catch (error) {
+        console.error('[Crow] Failed to load persisted records:', error);
+        return [];
+      }
+    },
+
+    getBackendKind: async () => (await backendPromise).kind,
+  };
+}
@@ -0,0 +1,32 @@
+import type { PrivacyContext, PrivacySignalConfig } from '../types';
+
+function readGlobalPrivacyControl(): boolean {
+  return (navigator as any).globalPrivacyControl === true;
+}
+
+// Older browsers expose the flag on window or with an ms prefix, and some use "yes"
+function readDoNotTrack(): boolean {
+  const doNotTrack =
+    navigator.doNotTrack ??
+    (window as any).doNotTrack ??
+    (navigator as any).msDoNotTrack;
+  return doNotTrack === '1' || doNotTrack === 'yes';
+}
+
+/** Reads the browser's privacy signals and decides which policy applies */
+export function resolvePrivacyContext(
+  config: PrivacySignalConfig
+): PrivacyContext {
+  const globalPrivacyControl = readGlobalPrivacyControl();
+  const doNotTrack = readDoNotTrack();
+  const isSignalHonoured =
+    (config.honorGlobalPrivacyControl && globalPrivacyControl) ||
+    (config.honorDoNotTrack && doNotTrack);
+
+  return {
+    mode:
+      isSignalHonoured && config.policy !== 'ignore' ? config.policy : 'none',
+    globalPrivacyControl,
+    doNotTrack,
+  };
+}
@@ -1,57 +1,463 @@
-import type { BaseEvent } from '../types';
+import type {
+  BaseEvent,
+  BatchResponse,
+  DeadLetterEntry,
+  DeadLetterReason,
+  DeliveryStats,
+} from '../types';
+import type {
+  PersistedRecord,
+  PersistentStore,
+  RecordOwnership,
+} from './persistent-store';
+import { isCircuitOpenError, isRetryableApiError } from '../api/client';
+import { selectOrphanedRecords } from './persistent-store';
+
+const MAX_DELIVERY_ATTEMPTS = 10;
+const MAX_DEAD_LETTER_ENTRIES = 100;
 
 export type EventQueue = {
-  addEventToQueue: (event: BaseEvent) => void;
+  addEventToQueue: (event: BaseEvent, sessionId: string) => void;
   flushAllQueuedEvents: () => Promise<void>;
+  flushQueuedEventsForUnload: (sendOnUnload: UnloadFlushCallback) => void;
   destroyQueue: () => void;
+  /** Drops queued and persisted events unsent, e.g. when consent is withdrawn */
+  discardQueuedEvents: () => void;
   getCurrentQueueSize: () => number;
+  getDeliveryStats: () => DeliveryStats;
+  getDeadLetterEntries: () => DeadLetterEntry[];
 };
 
+export interface EventQueueOptions {
+  maxBatchSize: number;
+  maxQueueSize: number;
+  flushIntervalMs: number;
+  store: PersistentStore<BaseEvent>;
+  // Without it, every record older than this page is restored on startup
+  ownership?: RecordOwnership | null;
+  onFlushCallback: (
+    events: BaseEvent[],
+    sessionId: string
+  ) => Promise<BatchResponse>;
+  onDeadLetter?: (entries: DeadLetterEntry[]) => void;
+  canFlush?: () => boolean;
+  // Other tabs write to the same store; it is reloaded before each flush so
+  // their events go out too
+  shouldReloadFromStore?: () => boolean;
+}
+
+/** Hands events to the browser synchronously; returns how many were accepted */
+export type UnloadFlushCallback = (
+  events: BaseEvent[],
+  sessionId: string
+) => number;
+
+type QueuedEvent = PersistedRecord<BaseEvent> & { attempts?: number };
+
+interface FailedEvent {
+  queuedEvent: QueuedEvent;
+  error: string;
+  retryable: boolean;
+}
+
 type EventQueueState = {
-  queuedEvents: BaseEvent[];
+  queuedEvents: QueuedEvent[];
+  deadLetterEntries: DeadLetterEntry[];
+  deliveryStats: DeliveryStats;
   flushTimerId: number | null;
+  removeFlushTriggers: (() => void) | null;
+  createdAt: number;
+  // Anything persisted before this was discarded and must not be restored
+  discardedAt: number;
+  inFlightEventIds: Set<string>;
+  pendingStoreWrite: Promise<void>;
+  pendingReload: Promise<void> | null;
 };
 
 function isWindowDefined(): boolean {
   return typeof window !== 'undefined';
 }
 
+function groupEventsBySession(
+  queuedEvents: QueuedEvent[]
+): Map<string, QueuedEvent[]> {
+  const groups = new Map<string, QueuedEvent[]>();
+  for (const queuedEvent of queuedEvents) {
+    const group = groups.get(queuedEvent.sessionId) ?? [];
+    group.push(queuedEvent);
+    groups.set(queuedEvent.sessionId, group);
+  }
+  return groups;
+}
+
+// Serialised so a reload never observes a store that lags behind memory
+function enqueueStoreWrite(
+  state: EventQueueState,
+  write: () => Promise<void>
+): void {
+  state.pendingStoreWrite = state.pendingStoreWrite.then(write);
+}
+
+function moveToDeadLetter(
+  failedEvents: FailedEvent[],
+  reason: DeadLetterReason,
+  state: EventQueueState,
+  options: EventQueueOptions
+): void {
+  if (failedEvents.length === 0) return;
+
+  const entries: DeadLetterEntry[] = failedEvents.map(
+    ({ queuedEvent, error }) => ({
+      event: queuedEvent.payload,
+      sessionId: queuedEvent.sessionId,
+      reason,
+      error,
+      attempts: queuedEvent.attempts ?? 1,
+      timestamp: Date.now(),
+    })
+  );
+
+  if (reason === 'rejected') {
+    state.deliveryStats.rejectedEvents += entries.length;
+  } else {
+    state.deliveryStats.droppedEvents += entries.length;
+  }
+
+  state.deadLetterEntries = [...state.deadLetterEntries, ...entries].slice(
+    -MAX_DEAD_LETTER_ENTRIES
+  );
+  enqueueStoreWrite(state, async () =>
+    options.store.removeRecords(
+      failedEvents.map(({ queuedEvent }) => queuedEvent.id)
+    )
+  );
+
+  try {
+    options.onDeadLetter?.(entries);
+  } catch (error) {
+    console.error('[Crow] Dead-letter callback failed:', error);
+  }
+}
+
+function requeueRetryableEvents(
+  failedEvents: FailedEvent[],
+  state: EventQueueState,
+  options: EventQueueOptions
+): void {
+  const retriedEvents: QueuedEvent[] = [];
+  const exhaustedEvents: FailedEvent[] = [];
+
+  for (const failedEvent of failedEvents) {
+    const attempts = (failedEvent.queuedEvent.attempts ?? 0) + 1;
+    const queuedEvent = { ...failedEvent.queuedEvent, attempts };
+
+    if (attempts >= MAX_DELIVERY_ATTEMPTS) {
+      exhaustedEvents.push({ ...failedEvent, queuedEvent });
+    } else {
+      retriedEvents.push(queuedEvent);
+    }
+  }
+
+  if (retriedEvents.length > 0) {
+    state.deliveryStats.retriedEvents += retriedEvents.length;
+    state.queuedEvents = [...retriedEvents, ...state.queuedEvents];
+    enqueueStoreWrite(state, async () =>
+      options.store.saveRecords(retriedEvents)
+    );
+  }
+
+  moveToDeadLetter(exhaustedEvents, 'dropped', state, options);
+  enforceQueueCapacity(state, options);
+}
+
+function collectFailedEvents(
+  sentEvents: QueuedEvent[],
+  response: BatchResponse
+): FailedEvent[] {
+  if (response.errors && response.errors.length > 0) {
+    return response.errors
+      .filter(entry => sentEvents[entry.index])
+      .map(entry => ({
+        queuedEvent: sentEvents[entry.index],
+        error: entry.error,
+        retryable: entry.retryable ?? false,
+      }));
+  }
+
+  // An unsuccessful response without per-event detail fails the whole batch
+  if (response.success === false) {
+    return sentEvents.map(queuedEvent => ({
+      queuedEvent,
+      error: 'Batch was not accepted',
+      retryable: true,
+    }));
+  }
+
+  return [];
+}
+
+function handleBatchResponse(
+  sentEvents: QueuedEvent[],
+  response: BatchResponse,
+  state: EventQueueState,
+  options: EventQueueOptions
+): void {
+  const failedEvents = collectFailedEvents(sentEvents, response);
+  const failedIds = new Set(
+    failedEvents.map(({ queuedEvent }) => queuedEvent.id)
+  );
+  const deliveredEvents = sentEvents.filter(
+    queuedEvent => !failedIds.has(queuedEvent.id)
+  );
+
+  state.deliveryStats.sentEvents += deliveredEvents.length;
+  enqueueStoreWrite(state, async () =>
+    options.store.removeRecords(
+      deliveredEvents.map(queuedEvent => queuedEvent.id)
+    )
+  );
+
+  requeueRetryableEvents(
+    failedEvents.filter(failedEvent => failedEvent.retryable),
+    state,
+    options
+  );
+  moveToDeadLetter(
+    failedEvents.filter(failedEvent => !failedEvent.retryable),
+    'rejected',
+    state,
+    options
+  );
+}
+
 async function sendEventsAndHandleFailure(
-  eventsToSend: BaseEvent[],
+  sessionId: string,
+  eventsToSend: QueuedEvent[],
   state: EventQueueState,
-  onFlushCallback: (events: BaseEvent[]) => Promise<void>
+  options: EventQueueOptions
 ): Promise<void> {
+  let response: BatchResponse;
+
   try {
-    await onFlushCallback(eventsToSend);
+    response = await options.onFlushCallback(
+      eventsToSend.map(queuedEvent => queuedEvent.payload),
+      sessionId
+    );
   } catch (error) {
+    if (isCircuitOpenError(error)) {
+      // Never reached the network, so no delivery attempt is spent
+      state.queuedEvents = [...eventsToSend, ...state.queuedEvents];
+      throw error;
+    }
+
     console.error('[Crow] Error flushing events:', error);
-    state.queuedEvents = [...eventsToSend, ...state.queuedEvents];
+
+    const failedEvents = eventsToSend.map(queuedEvent => ({
+      queuedEvent,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      retryable: true,
+    }));
+    if (isRetryableApiError(error)) {
+      requeueRetryableEvents(failedEvents, state, options);
+    } else {
+      moveToDeadLetter(failedEvents, 'rejected', state, options);
+    }
     throw error;
   }
+
+  handleBatchResponse(eventsToSend, response, state, options);
+}
+
+async function loadEventsFromSharedStore(
+  state: EventQueueState,
+  options: EventQueueOptions
+): Promise<void> {
+  await state.pendingStoreWrite;
+
+  const reloadStartedAt = Date.now();
+  const persistedEvents = await options.store.loadRecords();
+  const attemptsById = new Map(
+    state.queuedEvents.map(queuedEvent => [
+      queuedEvent.id,
+      queuedEvent.attempts,
+    ])
+  );
+  const persistedIds = new Set(persistedEvents.map(record => record.id));
+  // Added while the store was being read, so not part of the snapshot yet
+  const newerEvents = state.queuedEvents.filter(
+    queuedEvent =>
+      queuedEvent.createdAt >= reloadStartedAt &&
+      !persistedIds.has(queuedEvent.id)
+  );
+
+  state.queuedEvents = [
+    ...persistedEvents
+      .filter(
+        record =>
+          record.createdAt >= state.discardedAt &&
+          !state.inFlightEventIds.has(record.id)
+      )
+      .map(record => ({ ...record, attempts: attemptsById.get(record.id) })),
+    ...newerEvents,
+  ];
+}
+
+// Concurrent flushes share one reload, so the first to resume takes the events
+function reloadEventsFromSharedStore(
+  state: EventQueueState,
+  options: EventQueueOptions
+): Promise<void> {
+  state.pendingReload ??= loadEventsFromSharedStore(state, options).finally(
+    () => {
+      state.pendingReload = null;
+    }
+  );
+  return state.pendingReload;
 }
 
 async function flushEventsFromQueue(
   state: EventQueueState,
-  onFlushCallback: (events: BaseEvent[]) => Promise<void>
+  options: EventQueueOptions
 ): Promise<void> {
+  // Paused by the server or backing off from a failing endpoint
+  if (options.canFlush && !options.canFlush()) return;
+  if (options.shouldReloadFromStore?.()) {
+    await reloadEventsFromSharedStore(state, options);
+  }
   if (state.queuedEvents.length === 0) return;
 
   const eventsToSend = [...state.queuedEvents];
   state.queuedEvents = [];
+  for (const queuedEvent of eventsToSend) {
+    state.inFlightEventIds.add(queuedEvent.id);
+  }
 
-  await sendEventsAndHandleFailure(eventsToSend, state, onFlushCallback);
+  // Events from a previous page load keep the sessionId they were captured with
+  let firstError: unknown = null;
+  for (const [sessionId, sessionEvents] of groupEventsBySession(eventsToSend)) {
+    try {
+      await sendEventsAndHandleFailure(
+        sessionId,
+        sessionEvents,
+        state,
+        options
+      );
+    } catch (error) {
+      firstError ??= error;
+    } finally {
+      for (const queuedEvent of sessionEvents) {
+        state.inFlightEventIds.delete(queuedEvent.id);
+      }
+    }
+  }
+
+  if (firstError) throw firstError;
+}
+
+function flushEventsFromQueueForUnload(
+  state: EventQueueState,
+  options: EventQueueOptions,
+  sendOnUnload: UnloadFlushCallback
+): void {
+  if (state.queuedEvents.length === 0) return;
+
+  const sentEvents: QueuedEvent[] = [];
+  const remainingEvents: QueuedEvent[] = [];
+
+  for (const [sessionId, sessionEvents] of groupEventsBySession(
+    state.queuedEvents
+  )) {
+    const sentCount = sendOnUnload(
+      sessionEvents.map(queuedEvent => queuedEvent.payload),
+      sessionId
+    );
+    sentEvents.push(...sessionEvents.slice(0, sentCount));
+    remainingEvents.push(...sessionEvents.slice(sentCount));
+  }
+
+  // Whatever did not fit stays persisted and goes out on the next page load
+  state.queuedEvents = remainingEvents;
+  state.deliveryStats.sentEvents += sentEvents.length;
+  enqueueStoreWrite(state, async () =>
+    options.store.removeRecords(sentEvents.map(queuedEvent => queuedEvent.id))
+  );
+}
+
+async function restorePersistedEvents(
+  state: EventQueueState,
+  options: EventQueueOptions
+): Promise<void> {
+  const persistedEvents = await options.store.loadRecords();
+  const knownIds = new Set(
+    state.queuedEvents.map(queuedEvent => queuedEvent.id)
+  );
+  const ownership = options.ownership ?? null;
+  // Records written by this page are already held in memory
+  const restoredEvents = selectOrphanedRecords(
+    persistedEvents,
+    ownership,
+    state.createdAt
+  )
+    .filter(
+      persistedEvent =>
+        persistedEvent.createdAt >= state.discardedAt &&
+        !knownIds.has(persistedEvent.id)
+    )
+    .map(persistedEvent => ({
+      ...persistedEvent,
+      ownerId: ownership?.ownerId,
+    }));
+
+  if (restoredEvents.length === 0) return;
+
+  state.queuedEvents = [...restoredEvents, ...state.queuedEvents];
+  // Claimed, so pages opened while these are sent leave them alone
+  if (ownership) {
+    enqueueStoreWrite(state, async () =>
+      options.store.saveRecords(restoredEvents)
+    );
+  }
+  await flushEventsFromQueue(state, options);
+}
+
+// Failures are already logged and requeued; nothing to surface here
+function flushInBackground(
+  state: EventQueueState,
+  options: EventQueueOptions
+): void {
+  flushEventsFromQueue(state, options).catch(() => {});
+}
+
+function enforceQueueCapacity(
+  state: EventQueueState,
+  options: EventQueueOptions
+): void {
+  const overflowCount = state.queuedEvents.length - options.maxQueueSize;
+  if (overflowCount <= 0) return;
+
+  const droppedEvents = state.queuedEvents.slice(0, overflowCount);
+  state.queuedEvents = state.queuedEvents.slice(overflowCount);
+  moveToDeadLetter(
+    droppedEvents.map(queuedEvent => ({
+      queuedEvent,
+      error: 'Queue capacity exceeded',
+      retryable: false,
+    })),
+    'dropped',
+    state,
+    options
+  );
 }
 
 function startAutomaticFlushTimer(
-  flushIntervalMs: number,
   state: EventQueueState,
-  onFlushCallback: (events: BaseEvent[]) => Promise<void>
+  options: EventQueueOptions
 ): void {
   if (!isWindowDefined()) return;
 
   state.flushTimerId = window.setInterval(() => {
-    flushEventsFromQueue(state, onFlushCallback);
-  }, flushIntervalMs);
+    flushInBackground(state, options);
+  }, options.flushIntervalMs);
 }
 
 function stopFlushTimerIfExists(state: EventQueueState): void {
@@ -62,36 +468,110 @@ function stopFlushTimerIfExists(state: EventQueueState): void {
   state.flushTimerId = null;
 }
 
-export function createEventQueue(
-  maxBatchSize: number,
-  flushIntervalMs: number,
-  onFlushCallback: (events: BaseEvent[]) => Promise<void>
-): EventQueue {
+function setupFlushTriggers(
+  state: EventQueueState,
+  options: EventQueueOptions
+): void {
+  if (!isWindowDefined()) return;
+
+  const flushIgnoringFailure = () => {
+    flushInBackground(state, options);
+  };
+
+  const handlePageShow = (event: PageTransitionEvent) => {
+    // Resumed from the back/forward cache
+    if (event.persisted) flushIgnoringFailure();
+  };
+
+  window.addEventListener('online', flushIgnoringFailure);
+  window.addEventListener('pageshow', handlePageShow);
+
+  state.removeFlushTriggers = () => {
+    window.removeEventListener('online', flushIgnoringFailure);
+    window.removeEventListener('pageshow', handlePageShow);
+  };
+}
+
+function removeFlushTriggersIfExist(state: EventQueueState): void {
+  if (!state.removeFlushTriggers) return;
+
+  state.removeFlushTriggers();
+  state.removeFlushTriggers = null;
+}
+
+export function createEventQueue(options: EventQueueOptions): EventQueue {
   const state: EventQueueState = {
     queuedEvents: [],
+    deadLetterEntries: [],
+    deliveryStats: {
+      sentEvents: 0,
+      retriedEvents: 0,
+      rejectedEvents: 0,
+      droppedEvents: 0,
+    },
     flushTimerId: null,
+    removeFlushTriggers: null,
+    createdAt: Date.now(),
+    discardedAt: 0,
+    inFlightEventIds: new Set(),
+    pendingStoreWrite: Promise.resolve(),
+    pendingReload: null,
   };
 
-  startAutomaticFlushTimer(flushIntervalMs, state, onFlushCallback);
+  startAutomaticFlushTimer(state, options);
+  setupFlushTriggers(state, options);
+  restorePersistedEvents(state, options).catch(() => {});
 
   return {
-    addEventToQueue: (event: BaseEvent) => {
-      state.queuedEvents.push(event);
+    addEventToQueue: (event: BaseEvent, sessionId: string) => {
+      const queuedEvent: QueuedEvent = {
+        id: event.eventId,
+        sessionId,
+        createdAt: Date.now(),
+        ownerId: options.ownership?.ownerId,
+        payload: event,
+      };
+      state.queuedEvents.push(queuedEvent);
+      enqueueStoreWrite(state, async () =>
+        options.store.saveRecords([queuedEvent])
+      );
+      enforceQueueCapacity(state, options);
 
-      if (state.queuedEvents.length >= maxBatchSize) {
-        flushEventsFromQueue(state, onFlushCallback);
+      if (state.queuedEvents.length >= options.maxBatchSize) {
+        flushInBackground(state, options);
       }
     },
 
     flushAllQueuedEvents: async () => {
-      await flushEventsFromQueue(state, onFlushCallback);
+      await flushEventsFromQueue(state, options);
+    },
+
+    flushQueuedEventsForUnload: (sendOnUnload: UnloadFlushCallback) => {
+      flushEventsFromQueueForUnload(state, options, sendOnUnload);
     },
 
     destroyQueue: () => {
       stopFlushTimerIfExists(state);
-      flushEventsFromQueue(state, onFlushCallback);
+      removeFlushTriggersIfExist(state);
+      flushInBackground(state, options);
+    },
+
+    discardQueuedEvents: () => {
+      state.queuedEvents = [];
+      state.discardedAt = Date.now();
+      // Also removes what other tabs and earlier pages persisted
+      enqueueStoreWrite(state, async () => {
+        const persistedEvents = await options.store.loadRecords();
+        await options.store.removeRecords(
+          persistedEvents.map(persistedEvent => persistedEvent.id)
+        );
+      });
     },
 
     getCurrentQueueSize: () => state.queuedEvents.length,
+
+    getDeliveryStats: () => ({ ...state.deliveryStats }),
+
+    getDeadLetterEntries: () => [...state.deadLetterEntries],
   };
 }
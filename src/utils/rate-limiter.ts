@@ -0,0 +1,120 @@
+import type { EventType, RateLimitConfig, TokenBucketLimit } from '../types';
+
+export type SuppressedCounts = Partial<Record<EventType, number>>;
+
+export interface RateLimiter {
+  /** Takes a token for the event; false means it should be dropped and is counted */
+  tryAcquire: (eventType: EventType) => boolean;
+  /** Reports the counts dropped since the last report, if any */
+  flushSuppressedCounts: () => void;
+  /** Buckets keep their level across sessions; only the per-session budget restarts */
+  resetSessionBudget: () => void;
+  destroy: () => void;
+}
+
+interface TokenBucket {
+  limit: TokenBucketLimit;
+  tokens: number;
+  lastRefillAt: number;
+}
+
+function createTokenBucket(limit: TokenBucketLimit): TokenBucket {
+  return { limit, tokens: limit.capacity, lastRefillAt: performance.now() };
+}
+
+function refillTokenBucket(bucket: TokenBucket): void {
+  const now = performance.now();
+  const elapsedSeconds = (now - bucket.lastRefillAt) / 1000;
+  bucket.tokens = Math.min(
+    bucket.limit.capacity,
+    bucket.tokens + elapsedSeconds * bucket.limit.refillPerSecond
+  );
+  bucket.lastRefillAt = now;
+}
+
+export function createRateLimiter(
+  config: RateLimitConfig,
+  onSuppressed: (counts: SuppressedCounts) => void
+): RateLimiter {
+  const globalBucket = createTokenBucket(config.global);
+  const eventTypeBuckets = new Map<EventType, TokenBucket>();
+  let suppressedCounts: SuppressedCounts = {};
+  let sessionEventCount = 0;
+  let reportTimerId: number | null = null;
+
+  function getEventTypeBucket(eventType: EventType): TokenBucket {
+    let bucket = eventTypeBuckets.get(eventType);
+    if (!bucket) {
+      bucket = createTokenBucket(
+        config.eventTypeLimits[eventType] ?? config.perEventType
+      );
+      eventTypeBuckets.set(eventType, bucket);
+    }
+    return bucket;
+  }
+
+  function isSessionBudgetExhausted(): boolean {
+    return (
+      config.maxEventsPerSession > 0 &&
+      sessionEventCount >= config.maxEventsPerSession
+    );
+  }
+
+  function flushSuppressedCounts(): void {
+    if (reportTimerId !== null) {
+      clearTimeout(reportTimerId);
+      reportTimerId = null;
+    }
+    if (Object.keys(suppressedCounts).length === 0) return;
+
+    const counts = suppressedCounts;
+    suppressedCounts = {};
+    onSuppressed(counts);
+  }
+
+  // One summary per interval, however long the flood lasts
+  function recordSuppression(eventType: EventType): void {
+    suppressedCounts[eventType] = (suppressedCounts[eventType] ?? 0) + 1;
+    if (reportTimerId !== null) return;
+
+    reportTimerId = window.setTimeout(
+      flushSuppressedCounts,
+      config.suppressionReportIntervalMs
+    );
+  }
+
+  return {
+    tryAcquire: eventType => {
+      const eventTypeBucket = getEventTypeBucket(eventType);
+      refillTokenBucket(eventTypeBucket);
+      refillTokenBucket(globalBucket);
+
+      // Both buckets are checked first so a refusal never spends a token
+      if (
+        isSessionBudgetExhausted() ||
+        eventTypeBucket.tokens < 1 ||
+        globalBucket.tokens < 1
+      ) {
+        recordSuppression(eventType);
+        return false;
+      }
+
+      eventTypeBucket.tokens--;
+      globalBucket.tokens--;
+      sessionEventCount++;
+      return true;
+    },
+
+    flushSuppressedCounts,
+
+    resetSessionBudget: () => {
+      sessionEventCount = 0;
+    },
+
+    destroy: () => {
+      if (reportTimerId !== null) clearTimeout(reportTimerId);
+      reportTimerId = null;
+      suppressedCounts = {};
+    },
+  };
+}
@@ -0,0 +1,91 @@
+import type { ApiClient } from '../api/client';
+import type { RemoteConfig, RemoteConfigSettings } from '../types';
+import { withTimeout } from './async';
+
+const CACHE_KEY_PREFIX = 'crow_remote_config_';
+const GLOB_SPECIAL_CHARACTERS_PATTERN = /[.+?^${}()|[\]\\]/g;
+const GLOB_WILDCARD_PATTERN = /\*/g;
+
+export type RemoteConfigSource = 'network' | 'cache' | 'none';
+
+export interface RemoteConfigResult {
+  config: RemoteConfig | null;
+  source: RemoteConfigSource;
+}
+
+interface CachedRemoteConfig {
+  config: RemoteConfig;
+  etag?: string;
+  fetchedAt: number;
+}
+
+function readCachedConfig(projectId: string): CachedRemoteConfig | null {
+  try {
+    const rawValue = localStorage.getItem(CACHE_KEY_PREFIX + projectId);
+    return rawValue ? (JSON.parse(rawValue) as CachedRemoteConfig) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeCachedConfig(
+  projectId: string,
+  cached: CachedRemoteConfig
+): void {
+  try {
+    localStorage.setItem(CACHE_KEY_PREFIX + projectId, JSON.stringify(cached));
+  } catch {
+    // Without a cache the next page load simply fetches the full config again
+  }
+}
+
+/**
+ * Revalidates the cached project config with its ETag. Any failure falls back
+ * to the last cached copy, or to no remote config at all.
+ */
+export async function loadRemoteConfig(
+  apiClient: ApiClient,
+  projectId: string,
+  settings: RemoteConfigSettings
+): Promise<RemoteConfigResult> {
+  const cached = readCachedConfig(projectId);
+  const fallback: RemoteConfigResult = cached
+    ? { config: cached.config, source: 'cache' }
+    : { config: null, source: 'none' };
+
+  try {
+    const response = await withTimeout(
+      apiClient.fetchRemoteConfig({ projectId, etag: cached?.etag }),
+      settings.timeoutMs
+    );
+    if (!response || response.notModified || !response.config) {
+      return fallback;
+    }
+
+    writeCachedConfig(projectId, {
+      config: response.config,
+      etag: response.etag,
+      fetchedAt: Date.now(),
+    });
+    return { config: response.config, source: 'network' };
+  } catch (error) {
+    console.warn('[Crow] Using fallback config:', error);
+    return fallback;
+  }
+}
+
+// Patterns are globs matched against the full URL, e.g. "*/checkout/*"
+export function compileUrlPatterns(patterns: string[]): RegExp[] {
+  return patterns.map(
+    pattern =>
+      new RegExp(
+        `^${pattern
+          .replace(GLOB_SPECIAL_CHARACTERS_PATTERN, '\\$&')
+          .replace(GLOB_WILDCARD_PATTERN, '.*')}$`
+      )
+  );
+}
+
+export function matchesAnyUrlPattern(url: string, patterns: RegExp[]): boolean {
+  return patterns.some(pattern => pattern.test(url));
+}
@@ -0,0 +1,28 @@
+import { hashStringToHex } from './id';
+
+const HASH_SPACE = 2 ** 53;
+
+/**
+ * Hashes the session ID so the decision holds across page loads. The salt
+ * keeps decisions for different features independent of each other.
+ */
+export function isSessionSampledIn(
+  sessionId: string,
+  rate: number,
+  salt: string
+): boolean {
+  if (rate >= 1) return true;
+  if (rate <= 0) return false;
+
+  const hashFraction =
+    Number.parseInt(hashStringToHex(`${salt}:${sessionId}`), 16) / HASH_SPACE;
+  return hashFraction < rate;
+}
+
+// Unlike sessions, individual events need no stable decision: an independent draw will do
+export function isEventSampledIn(rate: number): boolean {
+  if (rate >= 1) return true;
+  if (rate <= 0) return false;
+
+  return Math.random() < rate;
+}
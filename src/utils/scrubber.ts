@@ -0,0 +1,237 @@
+import type { PiiDetector, ScrubbingConfig } from '../types';
+
+const REDACTED_VALUE = '[REDACTED]';
+// Guards against cyclic or pathologically deep event data
+const MAX_SCRUB_DEPTH = 10;
+const NON_DIGIT_PATTERN = /\D/g;
+const KEY_SEPARATOR_PATTERN = /[-_\s]/g;
+
+interface PatternRule {
+  name: string;
+  pattern: RegExp;
+  replacement: string;
+  isMatchValid?: (match: string, offset: number, input: string) => boolean;
+}
+
+export interface Redaction {
+  path: string;
+  rule: string;
+}
+
+export interface Scrubber {
+  /** Returns a scrubbed copy; `redactions` lists what was removed and where */
+  scrub: <T>(value: T, rootPath: string, redactions: Redaction[]) => T;
+}
+
+// Weeds out order numbers and other digit runs that merely look like cards
+function passesLuhnCheck(candidate: string): boolean {
+  const digits = candidate.replace(NON_DIGIT_PATTERN, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+const WORD_CHARACTER_PATTERN = /\w/;
+const NUMBER_SEPARATOR_PATTERN = /[.-]/;
+const DIGIT_PATTERN = /\d/;
+
+function continuesNumber(adjacentChar: string, nextChar: string): boolean {
+  if (WORD_CHARACTER_PATTERN.test(adjacentChar)) return true;
+  return (
+    NUMBER_SEPARATOR_PATTERN.test(adjacentChar) && DIGIT_PATTERN.test(nextChar)
+  );
+}
+
+// Rejects matches cut out of a longer run such as a date, version or IP address
+function isStandaloneMatch(
+  match: string,
+  offset: number,
+  input: string
+): boolean {
+  const end = offset + match.length;
+  return (
+    !continuesNumber(input[offset - 1] ?? '', input[offset - 2] ?? '') &&
+    !continuesNumber(input[end] ?? '', input[end + 1] ?? '')
+  );
+}
+
+// Token patterns run first so the email and phone rules never see their fragments
+const BUILT_IN_RULES: Record<PiiDetector, PatternRule> = {
+  jwt: {
+    name: 'jwt',
+    pattern: /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g,
+    replacement: '[REDACTED_JWT]',
+  },
+  bearer: {
+    name: 'bearer',
+    pattern: /\bBearer\s+[\w.~+/-]+=*/gi,
+    replacement: 'Bearer [REDACTED_TOKEN]',
+  },
+  email: {
+    name: 'email',
+    pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g,
+    replacement: '[REDACTED_EMAIL]',
+  },
+  card: {
+    name: 'card',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    replacement: '[REDACTED_CARD]',
+    isMatchValid: match => passesLuhnCheck(match),
+  },
+  phone: {
+    name: 'phone',
+    pattern:
+      /\+\d{8,15}\b|(?:\+\d{1,3}[\s.-]?)?\(?\d{2,4}\)?[\s.-]\d{3,4}[\s.-]?\d{3,4}\b/g,
+    replacement: '[REDACTED_PHONE]',
+    isMatchValid: isStandaloneMatch,
+  },
+};
+
+const DETECTOR_ORDER: PiiDetector[] = [
+  'jwt',
+  'bearer',
+  'email',
+  'card',
+  'phone',
+];
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(KEY_SEPARATOR_PATTERN, '');
+}
+
+function toGlobalPattern(pattern: RegExp): RegExp {
+  return pattern.global
+    ? pattern
+    : new RegExp(pattern.source, `${pattern.flags}g`);
+}
+
+function buildPatternRules(config: ScrubbingConfig): PatternRule[] {
+  const builtInRules = DETECTOR_ORDER.filter(detector =>
+    config.detectors.includes(detector)
+  ).map(detector => BUILT_IN_RULES[detector]);
+  const customRules = config.customPatterns.map((pattern, index) => ({
+    name: `custom_${index}`,
+    pattern: toGlobalPattern(pattern),
+    replacement: REDACTED_VALUE,
+  }));
+  return [...builtInRules, ...customRules];
+}
+
+function isUrlString(value: string): boolean {
+  return value.startsWith('http://') || value.startsWith('https://');
+}
+
+export function createScrubber(config: ScrubbingConfig): Scrubber {
+  const patternRules = buildPatternRules(config);
+  const denylistedKeys = config.denylistKeys.map(normalizeKey);
+
+  function isDenylistedKey(key: string): boolean {
+    const normalizedKey = normalizeKey(key);
+    return denylistedKeys.some(denylistedKey =>
+      normalizedKey.includes(denylistedKey)
+    );
+  }
+
+  function scrubString(
+    value: string,
+    path: string,
+    redactions: Redaction[]
+  ): string {
+    let scrubbedValue = value;
+    for (const rule of patternRules) {
+      scrubbedValue = scrubbedValue.replace(
+        rule.pattern,
+        (match: string, ...replaceArgs: unknown[]) => {
+          // Capture groups come first; the match offset and input follow
+          const offsetIndex = replaceArgs.findIndex(
+            arg => typeof arg === 'number'
+          );
+          const offset = replaceArgs[offsetIndex] as number;
+          const input = replaceArgs[offsetIndex + 1] as string;
+          if (rule.isMatchValid && !rule.isMatchValid(match, offset, input)) {
+            return match;
+          }
+
+          redactions.push({ path, rule: rule.name });
+          return rule.replacement;
+        }
+      );
+    }
+    return scrubbedValue;
+  }
+
+  // Query parameters such as ?token=… are dropped by name, like object keys
+  function scrubUrlQuery(
+    value: string,
+    path: string,
+    redactions: Redaction[]
+  ): string {
+    try {
+      const url = new URL(value);
+      let hasChanges = false;
+      for (const key of new Set(url.searchParams.keys())) {
+        if (!isDenylistedKey(key)) continue;
+
+        url.searchParams.set(key, REDACTED_VALUE);
+        redactions.push({ path: `${path}?${key}`, rule: 'denylist' });
+        hasChanges = true;
+      }
+      return hasChanges ? url.toString() : value;
+    } catch {
+      return value;
+    }
+  }
+
+  function scrubValue(
+    value: unknown,
+    path: string,
+    redactions: Redaction[],
+    depth: number
+  ): unknown {
+    if (typeof value === 'string') {
+      const scrubbedUrl = isUrlString(value)
+        ? scrubUrlQuery(value, path, redactions)
+        : value;
+      return scrubString(scrubbedUrl, path, redactions);
+    }
+    if (typeof value !== 'object' || value === null) return value;
+    if (depth >= MAX_SCRUB_DEPTH) return REDACTED_VALUE;
+
+    if (Array.isArray(value)) {
+      return value.map((item, index) =>
+        scrubValue(item, `${path}[${index}]`, redactions, depth + 1)
+      );
+    }
+
+    const scrubbedObject: Record<string, unknown> = {};
+    for (const [key, nestedValue] of Object.entries(value)) {
+      const nestedPath = `${path}.${key}`;
+      if (isDenylistedKey(key) && nestedValue !== undefined) {
+        scrubbedObject[key] = REDACTED_VALUE;
+        redactions.push({ path: nestedPath, rule: 'denylist' });
+        continue;
+      }
+      scrubbedObject[key] = scrubValue(
+        nestedValue,
+        nestedPath,
+        redactions,
+        depth + 1
+      );
+    }
+    return scrubbedObject;
+  }
+
+  return {
+    scrub: (value, rootPath, redactions) =>
+      scrubValue(value, rootPath, redactions, 0) as typeof value,
+  };
+}
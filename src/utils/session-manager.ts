@@ -0,0 +1,277 @@
+import type { ExitTriggerType, SessionConfig } from '../types';
+import type { SessionStorageScope, StoredSession } from './id';
+import {
+  createStoredSession,
+  extendCurrentSessionExpiry,
+  readStoredSession,
+  writeStoredSession,
+} from './id';
+
+const CAMPAIGN_QUERY_PARAMETERS = [
+  'utm_source',
+  'utm_medium',
+  'utm_campaign',
+  'utm_term',
+  'utm_content',
+  'gclid',
+  'fbclid',
+];
+
+export type SessionStartOrigin = 'local' | 'other_tab';
+
+export interface SessionLifecycleCallbacks {
+  onSessionStart: (sessionId: string, origin: SessionStartOrigin) => void;
+  onSessionEnd: (sessionId: string, exitTrigger: ExitTriggerType) => void;
+  /** Lets only one of several tabs sharing a session end it on the idle timer */
+  shouldEndOnTimeout?: () => boolean;
+}
+
+export interface SessionManager {
+  getSessionId: () => string;
+  getSessionStartTime: () => number;
+  isSessionActive: () => boolean;
+  /** Extends the session, first rolling over to a new one if it has ended */
+  recordActivity: () => string;
+  /** Picks up expiry extensions and rollovers written by other tabs */
+  syncWithStorage: () => void;
+  /** Writes the in-memory session to storage once storage is allowed */
+  persistSession: () => void;
+  /** `expiresAt` must already be converted to the client clock */
+  applyServerExpiry: (sessionId: string, expiresAt: number) => void;
+  setLifecycleCallbacks: (callbacks: SessionLifecycleCallbacks) => void;
+  destroy: () => void;
+}
+
+interface SessionManagerState {
+  session: StoredSession;
+  isActive: boolean;
+  serverExpiresAt: number | null;
+  expiryTimer: ReturnType<typeof setTimeout> | null;
+}
+
+function readCampaignFromUrl(url: string): string | null {
+  try {
+    const { searchParams } = new URL(url);
+    const campaignParts = CAMPAIGN_QUERY_PARAMETERS.flatMap(name => {
+      const value = searchParams.get(name);
+      return value ? [`${name}=${value}`] : [];
+    });
+    return campaignParts.length > 0 ? campaignParts.join('&') : null;
+  } catch {
+    return null;
+  }
+}
+
+function getNextLocalMidnight(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(24, 0, 0, 0);
+  return date.getTime();
+}
+
+function calculateSessionDeadline(
+  session: StoredSession,
+  serverExpiresAt: number | null,
+  config: SessionConfig
+): number {
+  let deadline = session.expiresAt;
+  if (config.rolloverAtMidnight) {
+    deadline = Math.min(deadline, getNextLocalMidnight(session.startedAt));
+  }
+  if (serverExpiresAt !== null) {
+    deadline = Math.min(deadline, serverExpiresAt);
+  }
+  return deadline;
+}
+
+// Arriving through a new campaign link starts a new session; plain URLs keep the current one
+function isCampaignChange(
+  session: StoredSession,
+  campaign: string | null,
+  config: SessionConfig
+): boolean {
+  return (
+    config.rolloverOnCampaignChange &&
+    campaign !== null &&
+    campaign !== session.campaign
+  );
+}
+
+function isStoredSessionLive(
+  session: StoredSession,
+  config: SessionConfig
+): boolean {
+  return Date.now() < calculateSessionDeadline(session, null, config);
+}
+
+function restoreOrCreateSession(
+  config: SessionConfig,
+  scope: SessionStorageScope
+): StoredSession {
+  const campaign = readCampaignFromUrl(window.location.href);
+  const storedSession = readStoredSession(scope);
+
+  const canReuseStoredSession =
+    storedSession !== null &&
+    isStoredSessionLive(storedSession, config) &&
+    !isCampaignChange(storedSession, campaign, config);
+
+  return canReuseStoredSession
+    ? storedSession
+    : createStoredSession(campaign, scope, config.inactivityTimeoutMs);
+}
+
+export function createSessionManager(
+  config: SessionConfig,
+  scope: SessionStorageScope
+): SessionManager {
+  let callbacks: SessionLifecycleCallbacks = {
+    onSessionStart: () => {},
+    onSessionEnd: () => {},
+  };
+  const state: SessionManagerState = {
+    session: restoreOrCreateSession(config, scope),
+    isActive: true,
+    serverExpiresAt: null,
+    expiryTimer: null,
+  };
+
+  function getDeadline(): number {
+    return calculateSessionDeadline(
+      state.session,
+      state.serverExpiresAt,
+      config
+    );
+  }
+
+  function clearExpiryTimer(): void {
+    if (state.expiryTimer === null) return;
+
+    clearTimeout(state.expiryTimer);
+    state.expiryTimer = null;
+  }
+
+  function endSession(exitTrigger: ExitTriggerType): void {
+    if (!state.isActive) return;
+
+    state.isActive = false;
+    clearExpiryTimer();
+    callbacks.onSessionEnd(state.session.sessionId, exitTrigger);
+  }
+
+  // Activity only pushes the deadline later, so the timer re-arms lazily
+  // instead of being reset on every event
+  function handleExpiryTimer(): void {
+    state.expiryTimer = null;
+    syncWithStorage();
+    if (!state.isActive) return;
+
+    const isPastDeadline = Date.now() >= getDeadline();
+    if (isPastDeadline && (callbacks.shouldEndOnTimeout?.() ?? true)) {
+      endSession('idle_timeout');
+      return;
+    }
+    // Another tab ends it, or this one picks it up on its next activity
+    if (isPastDeadline) return;
+
+    scheduleExpiryTimer();
+  }
+
+  function scheduleExpiryTimer(): void {
+    if (state.expiryTimer !== null || !state.isActive) return;
+
+    state.expiryTimer = setTimeout(
+      handleExpiryTimer,
+      Math.max(0, getDeadline() - Date.now())
+    );
+  }
+
+  function activateSession(
+    session: StoredSession,
+    origin: SessionStartOrigin
+  ): void {
+    state.session = session;
+    state.serverExpiresAt = null;
+    state.isActive = true;
+    clearExpiryTimer();
+    scheduleExpiryTimer();
+    callbacks.onSessionStart(session.sessionId, origin);
+  }
+
+  function startNewSession(campaign: string | null): void {
+    activateSession(
+      createStoredSession(campaign, scope, config.inactivityTimeoutMs),
+      'local'
+    );
+  }
+
+  function syncWithStorage(): void {
+    if (scope === 'tab') return;
+
+    const storedSession = readStoredSession(scope);
+    if (!storedSession) return;
+
+    if (storedSession.sessionId === state.session.sessionId) {
+      state.session.expiresAt = Math.max(
+        state.session.expiresAt,
+        storedSession.expiresAt
+      );
+      return;
+    }
+
+    // Another tab rolled over to a new session; join it rather than start a third
+    if (isStoredSessionLive(storedSession, config)) {
+      endSession('idle_timeout');
+      activateSession(storedSession, 'other_tab');
+    }
+  }
+
+  scheduleExpiryTimer();
+
+  return {
+    getSessionId: () => state.session.sessionId,
+    getSessionStartTime: () => state.session.startedAt,
+    isSessionActive: () => state.isActive,
+
+    recordActivity: () => {
+      const campaign = readCampaignFromUrl(window.location.href);
+      syncWithStorage();
+
+      // Timers are throttled in background tabs, so the deadline is re-checked here
+      if (
+        Date.now() >= getDeadline() ||
+        isCampaignChange(state.session, campaign, config)
+      ) {
+        endSession('idle_timeout');
+      }
+
+      if (state.isActive) {
+        state.session.expiresAt = extendCurrentSessionExpiry(
+          scope,
+          config.inactivityTimeoutMs
+        );
+      } else {
+        startNewSession(campaign);
+      }
+
+      return state.session.sessionId;
+    },
+
+    syncWithStorage,
+
+    persistSession: () => writeStoredSession(state.session, scope),
+
+    applyServerExpiry: (sessionId, expiresAt) => {
+      if (sessionId !== state.session.sessionId || !state.isActive) return;
+
+      state.serverExpiresAt = expiresAt;
+      clearExpiryTimer();
+      scheduleExpiryTimer();
+    },
+
+    setLifecycleCallbacks: nextCallbacks => {
+      callbacks = nextCallbacks;
+    },
+
+    destroy: clearExpiryTimer,
+  };
+}
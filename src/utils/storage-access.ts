@@ -0,0 +1,11 @@
+// Page-wide switch: the SDK keeps identifiers in memory only until the
+// visitor consents to storage
+let isStorageAccessAllowed = true;
+
+export function setStorageAccessAllowed(allowed: boolean): void {
+  isStorageAccessAllowed = allowed;
+}
+
+export function canWriteToStorage(): boolean {
+  return isStorageAccessAllowed;
+}
@@ -0,0 +1,107 @@
+import type { SuperProperties } from '../types';
+import type { SessionStorageScope } from './id';
+import { canWriteToStorage } from './storage-access';
+
+const SUPER_PROPERTIES_STORAGE_KEY = 'crow_super_properties';
+
+interface StoredSuperProperties {
+  sessionId: string;
+  properties: SuperProperties;
+}
+
+export interface SuperPropertyStore {
+  getProperties: (sessionId: string) => SuperProperties;
+  register: (sessionId: string, properties: SuperProperties) => void;
+  /** Only sets properties that are not registered yet, e.g. a first-touch campaign */
+  registerOnce: (sessionId: string, properties: SuperProperties) => void;
+  unregister: (sessionId: string, name: string) => void;
+  clear: (sessionId: string) => void;
+  /** Writes the in-memory properties to storage once storage is allowed */
+  persist: () => void;
+}
+
+function getScopedStorage(scope: SessionStorageScope): Storage {
+  return scope === 'shared' ? localStorage : sessionStorage;
+}
+
+function tryReadStoredProperties(
+  scope: SessionStorageScope
+): StoredSuperProperties | null {
+  try {
+    const storedValue = getScopedStorage(scope).getItem(
+      SUPER_PROPERTIES_STORAGE_KEY
+    );
+    return storedValue ? JSON.parse(storedValue) : null;
+  } catch {
+    return null;
+  }
+}
+
+function tryWriteStoredProperties(
+  scope: SessionStorageScope,
+  storedProperties: StoredSuperProperties
+): void {
+  if (!canWriteToStorage()) return;
+
+  try {
+    getScopedStorage(scope).setItem(
+      SUPER_PROPERTIES_STORAGE_KEY,
+      JSON.stringify(storedProperties)
+    );
+  } catch {
+    // Storage blocked or full; the properties only last for this page
+  }
+}
+
+/**
+ * Properties are stored next to the session and keyed by its ID, so they
+ * survive page loads but a new session starts without them. Reads go through
+ * storage to pick up changes made by other tabs sharing the session.
+ */
+export function createSuperPropertyStore(
+  scope: SessionStorageScope
+): SuperPropertyStore {
+  let fallbackProperties: StoredSuperProperties | null =
+    tryReadStoredProperties(scope);
+
+  function getProperties(sessionId: string): SuperProperties {
+    const storedProperties = tryReadStoredProperties(scope);
+    if (storedProperties?.sessionId === sessionId) {
+      fallbackProperties = storedProperties;
+    }
+    if (fallbackProperties?.sessionId !== sessionId) return {};
+
+    return { ...fallbackProperties.properties };
+  }
+
+  function setProperties(sessionId: string, properties: SuperProperties): void {
+    fallbackProperties = { sessionId, properties };
+    tryWriteStoredProperties(scope, fallbackProperties);
+  }
+
+  return {
+    getProperties,
+
+    register: (sessionId, properties) => {
+      setProperties(sessionId, { ...getProperties(sessionId), ...properties });
+    },
+
+    registerOnce: (sessionId, properties) => {
+      setProperties(sessionId, { ...properties, ...getProperties(sessionId) });
+    },
+
+    unregister: (sessionId, name) => {
+      const properties = getProperties(sessionId);
+      delete properties[name];
+      setProperties(sessionId, properties);
+    },
+
+    clear: sessionId => setProperties(sessionId, {}),
+
+    persist: () => {
+      if (fallbackProperties) {
+        tryWriteStoredProperties(scope, fallbackProperties);
+      }
+    },
+  };
+}
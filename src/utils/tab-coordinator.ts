@@ -0,0 +1,188 @@
+import { generateUniqueIdWithPrefix } from './id';
+import { canWriteToStorage } from './storage-access';
+
+const TAB_REGISTRY_STORAGE_KEY = 'crow_tabs';
+const BROADCAST_CHANNEL_NAME = 'crow_sdk';
+const HEARTBEAT_INTERVAL_MS = 5000;
+// Background tabs may only get their timers run once a minute
+const TAB_EXPIRY_MS = 90_000;
+
+export type TabMessage =
+  | { type: 'session_started'; sessionId: string }
+  | { type: 'tab_closed'; tabId: string };
+
+type TabMessageListener = (message: TabMessage) => void;
+
+export interface TabCoordinator {
+  tabId: string;
+  /** The longest-open live tab leads; it owns idle session ends and, optionally, flushing */
+  isLeader: () => boolean;
+  hasOtherActiveTabs: () => boolean;
+  getActiveTabIds: () => Set<string>;
+  broadcast: (message: TabMessage) => void;
+  onMessage: (listener: TabMessageListener) => () => void;
+  /** Leaves the registry, e.g. on pagehide; `rejoin` reverses it on pageshow */
+  leave: () => void;
+  rejoin: () => void;
+  destroy: () => void;
+}
+
+interface TabRegistryEntry {
+  openedAt: number;
+  lastSeenAt: number;
+}
+
+type TabRegistry = Record<string, TabRegistryEntry>;
+
+function readTabRegistry(): TabRegistry | null {
+  try {
+    const rawValue = localStorage.getItem(TAB_REGISTRY_STORAGE_KEY);
+    return rawValue ? (JSON.parse(rawValue) as TabRegistry) : {};
+  } catch {
+    return null;
+  }
+}
+
+function writeTabRegistry(registry: TabRegistry): void {
+  if (!canWriteToStorage()) return;
+
+  try {
+    localStorage.setItem(TAB_REGISTRY_STORAGE_KEY, JSON.stringify(registry));
+  } catch {
+    // Without storage every tab behaves as a lone leader
+  }
+}
+
+function getLiveTabEntries(
+  registry: TabRegistry
+): Array<[string, TabRegistryEntry]> {
+  const cutoff = Date.now() - TAB_EXPIRY_MS;
+  return Object.entries(registry).filter(
+    ([, entry]) => entry.lastSeenAt >= cutoff
+  );
+}
+
+function updateTabRegistry(
+  update: (registry: TabRegistry) => void
+): TabRegistry | null {
+  const registry = readTabRegistry();
+  if (!registry) return null;
+
+  update(registry);
+  const liveRegistry = Object.fromEntries(getLiveTabEntries(registry));
+  writeTabRegistry(liveRegistry);
+  return liveRegistry;
+}
+
+function createBroadcastChannelIfSupported(): BroadcastChannel | null {
+  if (typeof BroadcastChannel === 'undefined') return null;
+
+  try {
+    return new BroadcastChannel(BROADCAST_CHANNEL_NAME);
+  } catch {
+    return null;
+  }
+}
+
+export function createTabCoordinator(): TabCoordinator {
+  const tabId = generateUniqueIdWithPrefix('tab');
+  const openedAt = Date.now();
+  const channel = createBroadcastChannelIfSupported();
+  const listeners = new Set<TabMessageListener>();
+  let hasLeft = false;
+  let heartbeatTimerId: ReturnType<typeof setInterval> | null = null;
+
+  function sendHeartbeat(): void {
+    if (hasLeft) return;
+
+    updateTabRegistry(registry => {
+      registry[tabId] = { openedAt, lastSeenAt: Date.now() };
+    });
+  }
+
+  function removeFromRegistry(): void {
+    updateTabRegistry(registry => {
+      delete registry[tabId];
+    });
+  }
+
+  function handleChannelMessage(event: MessageEvent<TabMessage>): void {
+    for (const listener of listeners) {
+      listener(event.data);
+    }
+  }
+
+  function broadcast(message: TabMessage): void {
+    try {
+      channel?.postMessage(message);
+    } catch {
+      // The channel is closed once the coordinator is destroyed
+    }
+  }
+
+  channel?.addEventListener('message', handleChannelMessage);
+  sendHeartbeat();
+  heartbeatTimerId = setInterval(sendHeartbeat, HEARTBEAT_INTERVAL_MS);
+
+  return {
+    tabId,
+
+    isLeader: () => {
+      const registry = readTabRegistry();
+      if (!registry) return true;
+      if (hasLeft) return false;
+
+      const [leaderTabId] = getLiveTabEntries(registry).sort(
+        ([tabIdA, entryA], [tabIdB, entryB]) =>
+          entryA.openedAt - entryB.openedAt || tabIdA.localeCompare(tabIdB)
+      )[0] ?? [tabId];
+      return leaderTabId === tabId;
+    },
+
+    hasOtherActiveTabs: () => {
+      const registry = readTabRegistry();
+      if (!registry) return false;
+
+      return getLiveTabEntries(registry).some(([id]) => id !== tabId);
+    },
+
+    getActiveTabIds: () => {
+      const registry = readTabRegistry();
+      if (!registry) return new Set();
+
+      return new Set(getLiveTabEntries(registry).map(([id]) => id));
+    },
+
+    broadcast,
+
+    onMessage: listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+
+    leave: () => {
+      if (hasLeft) return;
+
+      hasLeft = true;
+      removeFromRegistry();
+      broadcast({ type: 'tab_closed', tabId });
+    },
+
+    rejoin: () => {
+      hasLeft = false;
+      sendHeartbeat();
+    },
+
+    destroy: () => {
+      if (heartbeatTimerId !== null) {
+        clearInterval(heartbeatTimerId);
+        heartbeatTimerId = null;
+      }
+      hasLeft = true;
+      removeFromRegistry();
+      listeners.clear();
+      channel?.removeEventListener('message', handleChannelMessage);
+      channel?.close();
+    },
+  };
+}
@@ -0,0 +1,134 @@
+import type { UrlProcessingConfig } from '../types';
+
+const NUMERIC_SEGMENT_PATTERN = /^\d+$/;
+const UUID_SEGMENT_PATTERN =
+  /^[\da-f]{8}-[\da-f]{4}-[\da-f]{4}-[\da-f]{4}-[\da-f]{12}$/i;
+// "#/orders/12" style routes belong to the page; other fragments are anchors or tokens
+const HASH_ROUTE_PREFIX = '#/';
+
+export interface ProcessedUrl {
+  url: string;
+  routeTemplate: string;
+}
+
+export interface UrlProcessor {
+  processUrl: (rawUrl: string) => ProcessedUrl;
+  /** Filters the query string and hash but leaves the path as is */
+  sanitizeUrl: (rawUrl: string) => string;
+}
+
+function splitPathSegments(path: string): string[] {
+  return path.split('/').filter(segment => segment.length > 0);
+}
+
+function matchesRouteTemplate(
+  pathSegments: string[],
+  templateSegments: string[]
+): boolean {
+  if (pathSegments.length !== templateSegments.length) return false;
+
+  return templateSegments.every(
+    (templateSegment, index) =>
+      templateSegment.startsWith(':') ||
+      templateSegment === '*' ||
+      templateSegment === pathSegments[index]
+  );
+}
+
+function inferRouteTemplate(pathSegments: string[]): string {
+  const templateSegments = pathSegments.map(segment => {
+    if (NUMERIC_SEGMENT_PATTERN.test(segment)) return ':id';
+    if (UUID_SEGMENT_PATTERN.test(segment)) return ':uuid';
+    return segment;
+  });
+  return `/${templateSegments.join('/')}`;
+}
+
+export function createUrlProcessor(config: UrlProcessingConfig): UrlProcessor {
+  const allowedParams = config.queryAllowlist?.map(name => name.toLowerCase());
+  const deniedParams = new Set(
+    config.queryDenylist.map(name => name.toLowerCase())
+  );
+  const routeTemplates = config.routeTemplates.map(template => ({
+    template,
+    segments: splitPathSegments(template),
+  }));
+
+  function isQueryParamKept(name: string): boolean {
+    const normalizedName = name.toLowerCase();
+    if (allowedParams) return allowedParams.includes(normalizedName);
+    return !deniedParams.has(normalizedName);
+  }
+
+  function filterSearchParams(searchParams: URLSearchParams): void {
+    for (const name of new Set(searchParams.keys())) {
+      if (!isQueryParamKept(name)) searchParams.delete(name);
+    }
+  }
+
+  // "#/reset?token=abc" carries a query of its own, filtered like the URL's
+  function filterHashRouteQuery(url: URL): void {
+    const queryStart = url.hash.indexOf('?');
+    if (queryStart === -1) return;
+
+    const searchParams = new URLSearchParams(url.hash.slice(queryStart + 1));
+    filterSearchParams(searchParams);
+    const query = searchParams.toString();
+    url.hash = url.hash.slice(0, queryStart) + (query ? `?${query}` : '');
+  }
+
+  function filterHash(url: URL): void {
+    if (url.hash.startsWith(HASH_ROUTE_PREFIX)) filterHashRouteQuery(url);
+
+    if (config.hash === 'keep') return;
+    if (
+      config.hash === 'route_only' &&
+      url.hash.startsWith(HASH_ROUTE_PREFIX)
+    ) {
+      return;
+    }
+    url.hash = '';
+  }
+
+  function parseAndSanitize(rawUrl: string): URL | null {
+    try {
+      const url = new URL(rawUrl);
+      filterSearchParams(url.searchParams);
+      filterHash(url);
+      return url;
+    } catch {
+      return null;
+    }
+  }
+
+  function resolveRouteTemplate(url: URL): string {
+    // Hash routers keep the real route in the fragment, if it survived filtering
+    const routePath = url.hash.startsWith(HASH_ROUTE_PREFIX)
+      ? url.hash.slice(1).split('?')[0]
+      : url.pathname;
+    const pathSegments = splitPathSegments(routePath);
+
+    const configuredTemplate = routeTemplates.find(({ segments }) =>
+      matchesRouteTemplate(pathSegments, segments)
+    );
+    if (configuredTemplate) return configuredTemplate.template;
+
+    return config.inferRouteTemplates
+      ? inferRouteTemplate(pathSegments)
+      : `/${pathSegments.join('/')}`;
+  }
+
+  return {
+    processUrl: rawUrl => {
+      const url = parseAndSanitize(rawUrl);
+      if (!url) return { url: rawUrl, routeTemplate: rawUrl };
+
+      return { url: url.toString(), routeTemplate: resolveRouteTemplate(url) };
+    },
+
+    sanitizeUrl: rawUrl => {
+      if (!rawUrl) return rawUrl;
+      return parseAndSanitize(rawUrl)?.toString() ?? rawUrl;
+    },
+  };
+}
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createIdentityStore } from '../../src/utils/identity';
+import { setStorageAccessAllowed } from '../../src/utils/storage-access';
+
+function createMemoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: key => items.get(key) ?? null,
+    key: index => Array.from(items.keys())[index] ?? null,
+    removeItem: key => {
+      items.delete(key);
+    },
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+  };
+}
+
+describe('createIdentityStore', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createMemoryStorage());
+    setStorageAccessAllowed(true);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    setStorageAccessAllowed(true);
+  });
+
+  it('rotates the anonymous ID on reset', () => {
+    const identityStore = createIdentityStore();
+    identityStore.setUserId('user_1');
+    const { anonymousId } = identityStore.getIdentity();
+
+    const resetIdentity = identityStore.reset();
+
+    expect(resetIdentity.anonymousId).not.toBe(anonymousId);
+    expect(identityStore.getIdentity()).toEqual(resetIdentity);
+    expect(localStorage.getItem('crow_user_id')).toBeNull();
+  });
+
+  it('keeps the reset identity when storage writes are blocked', () => {
+    const identityStore = createIdentityStore();
+    identityStore.setUserId('user_1');
+    const { anonymousId } = identityStore.getIdentity();
+    setStorageAccessAllowed(false);
+
+    const resetIdentity = identityStore.reset();
+
+    expect(identityStore.getIdentity()).toEqual(resetIdentity);
+    expect(identityStore.getIdentity().anonymousId).not.toBe(anonymousId);
+    expect(localStorage.getItem('crow_anonymous_id')).toBeNull();
+    expect(localStorage.getItem('crow_user_id')).toBeNull();
+  });
+
+  it('persists the reset identity once storage is allowed', () => {
+    const identityStore = createIdentityStore();
+    setStorageAccessAllowed(false);
+    const resetIdentity = identityStore.reset();
+
+    setStorageAccessAllowed(true);
+    identityStore.persist();
+
+    expect(localStorage.getItem('crow_anonymous_id')).toBe(
+      resetIdentity.anonymousId
+    );
+  });
+
+  it('removes the stored identity when consent is withdrawn', () => {
+    const identityStore = createIdentityStore();
+    identityStore.setUserId('user_1');
+    const identity = identityStore.getIdentity();
+    setStorageAccessAllowed(false);
+
+    identityStore.clearStoredIdentity();
+
+    expect(localStorage.getItem('crow_anonymous_id')).toBeNull();
+    expect(localStorage.getItem('crow_user_id')).toBeNull();
+    // The page keeps its IDs; only the next visit starts afresh
+    expect(identityStore.getIdentity()).toEqual(identity);
+    expect(createIdentityStore().getIdentity().anonymousId).not.toBe(
+      identity.anonymousId
+    );
+  });
+});
@@ -0,0 +1,76 @@
+import type { PersistedRecord } from '../../src/utils/persistent-store';
+import { describe, expect, it } from 'vitest';
+import {
+  createPersistentStore,
+  selectOrphanedRecords,
+} from '../../src/utils/persistent-store';
+
+function buildRecord(
+  id: string,
+  createdAt: number,
+  ownerId?: string
+): PersistedRecord<string> {
+  return { id, sessionId: 'session', createdAt, ownerId, payload: id };
+}
+
+describe('createPersistentStore', () => {
+  it('evicts the oldest records once over capacity', async () => {
+    const store = createPersistentStore<string>('events', {
+      enabled: false,
+      maxRecords: 2,
+      ttlMs: 60_000,
+    });
+    const now = Date.now();
+
+    await store.saveRecords([
+      buildRecord('a', now - 3),
+      buildRecord('b', now - 2),
+    ]);
+    await store.saveRecords([buildRecord('c', now - 1)]);
+
+    const records = await store.loadRecords();
+    expect(records.map(record => record.id)).toEqual(['b', 'c']);
+  });
+
+  it('keeps namespaces apart', async () => {
+    const config = { enabled: false, maxRecords: 1, ttlMs: 60_000 };
+    const eventStore = createPersistentStore<string>('events', config);
+    const replayStore = createPersistentStore<string>('replay', config);
+
+    await eventStore.saveRecords([buildRecord('event', Date.now())]);
+    await replayStore.saveRecords([buildRecord('chunk', Date.now())]);
+
+    expect(await eventStore.loadRecords()).toHaveLength(1);
+    expect(await replayStore.loadRecords()).toHaveLength(1);
+  });
+});
+
+describe('selectOrphanedRecords', () => {
+  const ownership = {
+    ownerId: 'tab_current',
+    getActiveOwnerIds: () => new Set(['tab_current', 'tab_open']),
+  };
+
+  it('leaves records of open pages to them', () => {
+    const records = [
+      buildRecord('closed', 1, 'tab_closed'),
+      buildRecord('open', 2, 'tab_open'),
+      buildRecord('own', 3, 'tab_current'),
+    ];
+
+    expect(
+      selectOrphanedRecords(records, ownership, 10).map(record => record.id)
+    ).toEqual(['closed']);
+  });
+
+  it('falls back to the page start for records without an owner', () => {
+    const records = [buildRecord('older', 5), buildRecord('newer', 15)];
+
+    expect(
+      selectOrphanedRecords(records, ownership, 10).map(record => record.id)
+    ).toEqual(['older']);
+    expect(
+      selectOrphanedRecords(records, null, 10).map(record => record.id)
+    ).toEqual(['older']);
+  });
+});
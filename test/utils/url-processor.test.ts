@@ -0,0 +1,75 @@
+import type { UrlProcessingConfig } from '../../src/types';
+import { describe, expect, it } from 'vitest';
+import { createUrlProcessor } from '../../src/utils/url-processor';
+
+function buildConfig(
+  overrides: Partial<UrlProcessingConfig> = {}
+): UrlProcessingConfig {
+  return {
+    queryAllowlist: null,
+    queryDenylist: ['token', 'email'],
+    hash: 'route_only',
+    routeTemplates: [],
+    inferRouteTemplates: true,
+    ...overrides,
+  };
+}
+
+describe('createUrlProcessor', () => {
+  it('drops denylisted query parameters', () => {
+    const { sanitizeUrl } = createUrlProcessor(buildConfig());
+
+    expect(sanitizeUrl('https://shop.test/reset?token=abc&step=2')).toBe(
+      'https://shop.test/reset?step=2'
+    );
+  });
+
+  it('filters the query of a hash route', () => {
+    const { sanitizeUrl } = createUrlProcessor(buildConfig());
+
+    expect(sanitizeUrl('https://shop.test/#/reset?token=abc&step=2')).toBe(
+      'https://shop.test/#/reset?step=2'
+    );
+    expect(sanitizeUrl('https://shop.test/#/reset?token=abc')).toBe(
+      'https://shop.test/#/reset'
+    );
+  });
+
+  it('applies the allowlist to a hash route query', () => {
+    const { sanitizeUrl } = createUrlProcessor(
+      buildConfig({ queryAllowlist: ['step'] })
+    );
+
+    expect(sanitizeUrl('https://shop.test/#/reset?step=2&email=a@b.test')).toBe(
+      'https://shop.test/#/reset?step=2'
+    );
+  });
+
+  it('filters hash route queries when hashes are kept', () => {
+    const { sanitizeUrl } = createUrlProcessor(buildConfig({ hash: 'keep' }));
+
+    expect(sanitizeUrl('https://shop.test/#/reset?token=abc')).toBe(
+      'https://shop.test/#/reset'
+    );
+    expect(sanitizeUrl('https://shop.test/#section?token=abc')).toBe(
+      'https://shop.test/#section?token=abc'
+    );
+  });
+
+  it('drops fragments that are not hash routes', () => {
+    const { sanitizeUrl } = createUrlProcessor(buildConfig());
+
+    expect(sanitizeUrl('https://shop.test/page#access_token=abc')).toBe(
+      'https://shop.test/page'
+    );
+  });
+
+  it('resolves the route template from a filtered hash route', () => {
+    const { processUrl } = createUrlProcessor(buildConfig());
+
+    expect(processUrl('https://shop.test/#/orders/12?token=abc')).toEqual({
+      url: 'https://shop.test/#/orders/12',
+      routeTemplate: '/orders/:id',
+    });
+  });
+});